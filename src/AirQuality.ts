@@ -0,0 +1,445 @@
+import { BlueAirDeviceSensorData, BlueAirDeviceStatus } from './Consts';
+import { DevicePoller } from './DevicePoller';
+import { BlueAirValidationError } from './Errors';
+
+const HOUR = 3600 * 1000;
+
+/**
+ * `us-epa` is the US EPA AQI (2024 PM2.5 breakpoints), `eu-caqi` the European
+ * Common Air Quality Index for background locations and `china` the AQI of HJ 633-2012.
+ */
+export type AirQualityStandard = 'us-epa' | 'eu-caqi' | 'china';
+
+export type ParticulatePollutant = 'pm2_5' | 'pm10';
+
+/**
+ * An air quality index of particulate matter.
+ */
+export type AirQualityIndex = {
+  standard: AirQualityStandard;
+  // The highest sub-index.
+  index: number;
+  category: string;
+  // Position of the category, from 1 for the cleanest air.
+  level: number;
+  // The pollutant with the highest sub-index.
+  dominant: ParticulatePollutant;
+  // The sub-index of every pollutant with a reading.
+  pollutants: { [pollutant in ParticulatePollutant]?: number };
+};
+
+/**
+ * A qualitative band of a reading.
+ */
+export type AirQualityBand = {
+  // From 1 for the cleanest air.
+  level: number;
+  label: string;
+};
+
+/**
+ * Air quality of a device status, from its current readings.
+ */
+export type AirQualitySummary = {
+  standard: AirQualityStandard;
+  // Set when the device reports pm2_5 or pm10.
+  index?: number;
+  category?: string;
+  dominant?: ParticulatePollutant;
+  voc?: AirQualityBand;
+  hcho?: AirQualityBand;
+};
+
+/**
+ * Upper bounds of qualitative bands, in ascending order; readings above the last
+ * bound fall in the last band.
+ */
+export type AirQualityBands = { max: number; label: string }[];
+
+// A linear piece of an index: concentrations low to high map to indexes low to high
+type Segment = [number, number, number, number];
+
+type StandardDefinition = {
+  // Period the concentrations are averaged over, in milliseconds.
+  averaging: number;
+  pollutants: {
+    [pollutant in ParticulatePollutant]: {
+      segments: Segment[];
+      // Decimals kept before looking up the concentration.
+      decimals: number;
+    };
+  };
+  // Readings above the last segment continue its slope instead of being capped.
+  extrapolate: boolean;
+  round: (index: number) => number;
+  categories: { max: number; label: string }[];
+};
+
+const STANDARDS: { [standard in AirQualityStandard]: StandardDefinition } = {
+  'us-epa': {
+    averaging: 24 * HOUR,
+    pollutants: {
+      pm2_5: {
+        segments: [
+          [0, 9, 0, 50],
+          [9.1, 35.4, 51, 100],
+          [35.5, 55.4, 101, 150],
+          [55.5, 125.4, 151, 200],
+          [125.5, 225.4, 201, 300],
+          [225.5, 325.4, 301, 500],
+        ],
+        decimals: 1,
+      },
+      pm10: {
+        segments: [
+          [0, 54, 0, 50],
+          [55, 154, 51, 100],
+          [155, 254, 101, 150],
+          [255, 354, 151, 200],
+          [355, 424, 201, 300],
+          [425, 604, 301, 500],
+        ],
+        decimals: 0,
+      },
+    },
+    extrapolate: false,
+    round: Math.round,
+    categories: [
+      { max: 50, label: 'Good' },
+      { max: 100, label: 'Moderate' },
+      { max: 150, label: 'Unhealthy for Sensitive Groups' },
+      { max: 200, label: 'Unhealthy' },
+      { max: 300, label: 'Very Unhealthy' },
+      { max: Infinity, label: 'Hazardous' },
+    ],
+  },
+  'eu-caqi': {
+    averaging: HOUR,
+    pollutants: {
+      pm2_5: {
+        segments: [
+          [0, 15, 0, 25],
+          [15, 30, 25, 50],
+          [30, 55, 50, 75],
+          [55, 110, 75, 100],
+        ],
+        decimals: 1,
+      },
+      pm10: {
+        segments: [
+          [0, 25, 0, 25],
+          [25, 50, 25, 50],
+          [50, 90, 50, 75],
+          [90, 180, 75, 100],
+        ],
+        decimals: 1,
+      },
+    },
+    extrapolate: true,
+    round: Math.round,
+    categories: [
+      { max: 25, label: 'Very low' },
+      { max: 50, label: 'Low' },
+      { max: 75, label: 'Medium' },
+      { max: 100, label: 'High' },
+      { max: Infinity, label: 'Very high' },
+    ],
+  },
+  'china': {
+    averaging: 24 * HOUR,
+    pollutants: {
+      pm2_5: {
+        segments: [
+          [0, 35, 0, 50],
+          [35, 75, 50, 100],
+          [75, 115, 100, 150],
+          [115, 150, 150, 200],
+          [150, 250, 200, 300],
+          [250, 350, 300, 400],
+          [350, 500, 400, 500],
+        ],
+        decimals: 1,
+      },
+      pm10: {
+        segments: [
+          [0, 50, 0, 50],
+          [50, 150, 50, 100],
+          [150, 250, 100, 150],
+          [250, 350, 150, 200],
+          [350, 420, 200, 300],
+          [420, 500, 300, 400],
+          [500, 600, 400, 500],
+        ],
+        decimals: 1,
+      },
+    },
+    extrapolate: false,
+    round: Math.ceil,
+    categories: [
+      { max: 50, label: 'Excellent' },
+      { max: 100, label: 'Good' },
+      { max: 150, label: 'Lightly polluted' },
+      { max: 200, label: 'Moderately polluted' },
+      { max: 300, label: 'Heavily polluted' },
+      { max: Infinity, label: 'Severely polluted' },
+    ],
+  },
+};
+
+/**
+ * Bands of total VOC readings, in ppb. Approximations of the bands of the BlueAir
+ * app, which are not published.
+ */
+export const VOC_BANDS: AirQualityBands = [
+  { max: 220, label: 'Excellent' },
+  { max: 660, label: 'Good' },
+  { max: 1430, label: 'Moderate' },
+  { max: 2200, label: 'Polluted' },
+  { max: Infinity, label: 'Very polluted' },
+];
+
+/**
+ * Bands of formaldehyde readings, in ppb. Approximations of the bands of the BlueAir
+ * app, which are not published.
+ */
+export const HCHO_BANDS: AirQualityBands = [
+  { max: 20, label: 'Excellent' },
+  { max: 50, label: 'Good' },
+  { max: 100, label: 'Moderate' },
+  { max: 200, label: 'Polluted' },
+  { max: Infinity, label: 'Very polluted' },
+];
+
+/**
+ * Returns the period a standard averages concentrations over.
+ * @param standard - The standard.
+ * @returns {number} - The period, in milliseconds: 24 hours for the US EPA and China AQI, one hour for CAQI.
+ */
+export function averagingPeriod(standard: AirQualityStandard): number {
+  return definition(standard).averaging;
+}
+
+/**
+ * Computes an air quality index from particulate concentrations. The concentrations
+ * should be averaged over the period of the standard, see averagingPeriod.
+ * @param standard - The standard.
+ * @param concentrations - pm2_5 and pm10, in µg/m³.
+ * @returns {AirQualityIndex | undefined} - The index, or undefined without any concentration.
+ * @throws {BlueAirValidationError} - If the standard is unknown.
+ */
+export function computeAqi(
+  standard: AirQualityStandard,
+  concentrations: Pick<BlueAirDeviceSensorData, ParticulatePollutant>,
+): AirQualityIndex | undefined {
+  const { pollutants, categories, round, extrapolate } = definition(standard);
+  const subIndexes: AirQualityIndex['pollutants'] = {};
+  let dominant: ParticulatePollutant | undefined;
+
+  for (const pollutant of ['pm2_5', 'pm10'] as ParticulatePollutant[]) {
+    const concentration = concentrations[pollutant];
+    if (typeof concentration !== 'number' || !(concentration >= 0)) {
+      continue;
+    }
+    const { segments, decimals } = pollutants[pollutant];
+    const subIndex = round(
+      interpolate(segments, truncate(concentration, decimals), extrapolate),
+    );
+    subIndexes[pollutant] = subIndex;
+    if (dominant === undefined || subIndex > (subIndexes[dominant] ?? 0)) {
+      dominant = pollutant;
+    }
+  }
+
+  if (dominant === undefined) {
+    return undefined;
+  }
+  const index = subIndexes[dominant] as number;
+  const level = categories.findIndex(({ max }) => index <= max);
+  return {
+    standard,
+    index,
+    category: categories[level].label,
+    level: level + 1,
+    dominant,
+    pollutants: subIndexes,
+  };
+}
+
+/**
+ * Places a reading in qualitative bands.
+ * @param value - The reading.
+ * @param bands - The bands, e.g. VOC_BANDS or HCHO_BANDS.
+ * @returns {AirQualityBand} - The band.
+ */
+export function classifyReading(
+  value: number,
+  bands: AirQualityBands,
+): AirQualityBand {
+  const index = bands.findIndex(({ max }) => value <= max);
+  const level = index < 0 ? bands.length - 1 : index;
+  return { level: level + 1, label: bands[level].label };
+}
+
+/**
+ * Summarizes the air quality of current sensor readings.
+ * @param sensorData - The readings of a device.
+ * @param standard - The standard of the index.
+ * @returns {AirQualitySummary} - The summary; fields without readings are left out.
+ */
+export function summarizeAirQuality(
+  sensorData: BlueAirDeviceSensorData,
+  standard: AirQualityStandard = 'us-epa',
+): AirQualitySummary {
+  const summary: AirQualitySummary = { standard };
+  const aqi = computeAqi(standard, sensorData);
+  if (aqi) {
+    summary.index = aqi.index;
+    summary.category = aqi.category;
+    summary.dominant = aqi.dominant;
+  }
+  if (typeof sensorData.voc === 'number') {
+    summary.voc = classifyReading(sensorData.voc, VOC_BANDS);
+  }
+  if (typeof sensorData.hcho === 'number') {
+    summary.hcho = classifyReading(sensorData.hcho, HCHO_BANDS);
+  }
+  return summary;
+}
+
+/**
+ * Keeps the particulate readings of devices for a day and computes indexes from
+ * their averages over the period each standard requires.
+ */
+export class AirQualityTracker {
+  private readings = new Map<
+    string,
+    { timestamp: number; pm2_5?: number; pm10?: number }[]
+  >();
+
+  /**
+   * Records the particulate readings of a status read.
+   * @param statuses - The result of getDeviceStatus.
+   * @param receivedAt - Time used for readings without a timestamp, in epoch milliseconds.
+   */
+  public record(
+    statuses: BlueAirDeviceStatus[],
+    receivedAt = Date.now(),
+  ): void {
+    for (const status of statuses) {
+      const { pm2_5, pm10 } = status.sensorData;
+      if (pm2_5 === undefined && pm10 === undefined) {
+        continue;
+      }
+      const timestamp =
+        status.sensorUpdatedAt?.pm2_5 ??
+        status.sensorUpdatedAt?.pm10 ??
+        receivedAt;
+      const readings = this.readings.get(status.id) ?? [];
+      const latest = readings[readings.length - 1];
+      // A reading seen by several reads is kept once
+      if (latest && latest.timestamp >= timestamp) {
+        continue;
+      }
+      readings.push({ timestamp, pm2_5, pm10 });
+      // Nothing older than the longest averaging period is needed
+      while (readings[0].timestamp <= timestamp - 24 * HOUR) {
+        readings.shift();
+      }
+      this.readings.set(status.id, readings);
+    }
+  }
+
+  /**
+   * Records every poll of a poller until the returned function is called.
+   * @param poller - The poller.
+   * @returns {() => void} - A function that stops recording.
+   */
+  public track(poller: DevicePoller): () => void {
+    const listener = ({
+      statuses,
+      timestamp,
+    }: {
+      statuses: BlueAirDeviceStatus[];
+      timestamp: number;
+    }) => this.record(statuses, timestamp);
+    poller.on('poll', listener);
+    return () => {
+      poller.off('poll', listener);
+    };
+  }
+
+  /**
+   * Returns the average concentration of a pollutant.
+   * @param uuid - The device uuid.
+   * @param pollutant - The pollutant.
+   * @param period - Length of the period ending with the latest reading, in milliseconds.
+   * @returns {number | undefined} - The average, or undefined without readings.
+   */
+  public getAverage(
+    uuid: string,
+    pollutant: ParticulatePollutant,
+    period: number,
+  ): number | undefined {
+    const readings = this.readings.get(uuid) ?? [];
+    const latest = readings[readings.length - 1];
+    if (!latest) {
+      return undefined;
+    }
+    const values = readings
+      .filter(({ timestamp }) => timestamp > latest.timestamp - period)
+      .map((reading) => reading[pollutant])
+      .filter((value): value is number => typeof value === 'number');
+    return values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : undefined;
+  }
+
+  /**
+   * Computes an index from the averages over the period of the standard. Until the
+   * tracker has seen a full period, the average covers the readings so far.
+   * @param uuid - The device uuid.
+   * @param standard - The standard.
+   * @returns {AirQualityIndex | undefined} - The index, or undefined without readings.
+   */
+  public getIndex(
+    uuid: string,
+    standard: AirQualityStandard = 'us-epa',
+  ): AirQualityIndex | undefined {
+    const period = averagingPeriod(standard);
+    return computeAqi(standard, {
+      pm2_5: this.getAverage(uuid, 'pm2_5', period),
+      pm10: this.getAverage(uuid, 'pm10', period),
+    });
+  }
+}
+
+function definition(standard: AirQualityStandard): StandardDefinition {
+  const found = STANDARDS[standard];
+  if (!found) {
+    throw new BlueAirValidationError(
+      `Unknown air quality standard ${standard}`,
+    );
+  }
+  return found;
+}
+
+function truncate(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  // The epsilon keeps e.g. 35.4 from truncating to 35.3
+  return Math.floor(value * factor + 1e-9) / factor;
+}
+
+function interpolate(
+  segments: Segment[],
+  concentration: number,
+  extrapolate: boolean,
+): number {
+  const segment =
+    segments.find(([, high]) => concentration <= high) ??
+    segments[segments.length - 1];
+  const [cLow, cHigh, iLow, iHigh] = segment;
+  if (concentration > cHigh && !extrapolate) {
+    return iHigh;
+  }
+  return ((iHigh - iLow) / (cHigh - cLow)) * (concentration - cLow) + iLow;
+}
@@ -0,0 +1,43 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Replaces the contents of a file without ever leaving it truncated: the contents
+ * are written to a temporary file next to it, which is then renamed over it.
+ * Parent directories are created first.
+ * @param filePath - Path to the file.
+ * @param contents - The new contents.
+ * @param mode - Permissions of a newly created file, e.g. 0o600 for credentials.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  contents: string,
+  mode?: number,
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // A name of its own per write, so concurrent writers never rename each other's
+  // half-written file.
+  const tmpPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+  try {
+    await fs.writeFile(tmpPath, contents, { mode });
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Replaces the contents of a file with a value as indented JSON, like writeFileAtomic.
+ * @param filePath - Path to the file.
+ * @param value - The value to write.
+ * @param mode - Permissions of a newly created file.
+ */
+export function writeJsonFile(
+  filePath: string,
+  value: unknown,
+  mode?: number,
+): Promise<void> {
+  return writeFileAtomic(filePath, JSON.stringify(value, null, 2), mode);
+}
@@ -0,0 +1,372 @@
+import {
+  ApplyStateOptions,
+  ApplyStateResult,
+  BlueAirAwsClient,
+  BlueAirClientOptions,
+  SetStateOptions,
+} from './BlueAirAwsClient';
+import {
+  BlueAirDeviceDiscovery,
+  BlueAirDeviceState,
+  BlueAirDeviceStatus,
+  Region,
+} from './Consts';
+import { WritableDeviceState } from './DeviceStateSchema';
+import {
+  BlueAirError,
+  BlueAirValidationError,
+  toBlueAirError,
+} from './Errors';
+import { noopLogger, withContext } from './Logger';
+
+/**
+ * Credentials of one account managed by BlueAirAccountManager.
+ */
+export type AccountCredentials = {
+  // Identifies the account in the manager. Defaults to the username.
+  id?: string;
+  username: string;
+  password: string;
+  // Skips the region lookup when given.
+  region?: Region;
+  // Client settings for this account, merged over the shared ones.
+  options?: BlueAirClientOptions;
+};
+
+export type BlueAirAccountManagerOptions = {
+  // Client settings shared by all accounts, e.g. a logger or token store.
+  clientOptions?: BlueAirClientOptions;
+  // How many accounts are initialized or queried at the same time.
+  concurrency?: number;
+};
+
+/**
+ * The state of one managed account.
+ */
+export type AccountStatus = {
+  id: string;
+  username: string;
+  // True once the account is logged in.
+  ready: boolean;
+  // The last error of the account, if its last operation failed.
+  error?: BlueAirError;
+};
+
+/**
+ * A device together with the account that owns it.
+ */
+export type ManagedDevice = BlueAirDeviceDiscovery & {
+  // The id of the owning account in the manager.
+  accountId: string;
+  // The main account uuid, as needed by getDeviceStatus.
+  accountuuid: string;
+};
+
+type ManagedAccount = AccountStatus & {
+  client: BlueAirAwsClient;
+  region?: Region;
+};
+
+/**
+ * Manages clients for several BlueAir accounts, possibly in different regions.
+ * Accounts are initialized concurrently and fail independently, and commands for
+ * a device are routed to the client of the account that owns it.
+ */
+export class BlueAirAccountManager {
+  private accounts = new Map<string, ManagedAccount>();
+  private deviceIndex = new Map<string, ManagedDevice>();
+  private readonly concurrency: number;
+
+  /**
+   * @param accounts - The accounts to manage.
+   * @param options - Shared client settings and the concurrency limit.
+   */
+  constructor(
+    accounts: AccountCredentials[] = [],
+    private readonly options: BlueAirAccountManagerOptions = {},
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    for (const account of accounts) {
+      this.addAccount(account);
+    }
+  }
+
+  /**
+   * The state of every account.
+   */
+  public get accountStatuses(): AccountStatus[] {
+    return Array.from(this.accounts.values()).map(
+      ({ id, username, ready, error }) => ({ id, username, ready, error }),
+    );
+  }
+
+  /**
+   * Every device of the ready accounts, as of the last refreshDevices().
+   */
+  public get devices(): ManagedDevice[] {
+    return Array.from(this.deviceIndex.values());
+  }
+
+  /**
+   * Adds an account. Call initialize() to log it in.
+   * @param credentials - The account credentials.
+   * @returns {string} - The id of the account.
+   * @throws {BlueAirValidationError} - If an account with the same id exists.
+   */
+  public addAccount(credentials: AccountCredentials): string {
+    const id = credentials.id ?? credentials.username;
+    if (this.accounts.has(id)) {
+      throw new BlueAirValidationError(`Account ${id} is already managed`);
+    }
+
+    const shared = this.options.clientOptions ?? {};
+    const logger = withContext(
+      credentials.options?.logger ?? shared.logger ?? noopLogger,
+      { account: id },
+    );
+    const client = new BlueAirAwsClient(
+      credentials.username,
+      credentials.password,
+      { ...shared, ...credentials.options, logger },
+    );
+
+    this.accounts.set(id, {
+      id,
+      username: credentials.username,
+      ready: false,
+      client,
+      region: credentials.region,
+    });
+    return id;
+  }
+
+  /**
+   * Stops managing an account and forgets its devices.
+   * @param id - The id of the account.
+   */
+  public removeAccount(id: string): void {
+    this.accounts.delete(id);
+    this.removeDevicesOf(id);
+  }
+
+  /**
+   * Returns the client of an account.
+   * @param id - The id of the account.
+   * @returns {BlueAirAwsClient} - The client.
+   * @throws {BlueAirValidationError} - If the account is unknown.
+   */
+  public getClient(id: string): BlueAirAwsClient {
+    return this.getAccount(id).client;
+  }
+
+  /**
+   * Returns the client of the account owning a device.
+   * @param uuid - The device uuid.
+   * @returns {BlueAirAwsClient} - The client.
+   * @throws {BlueAirValidationError} - If the device is unknown.
+   */
+  public getClientForDevice(uuid: string): BlueAirAwsClient {
+    return this.getAccount(this.getDevice(uuid).accountId).client;
+  }
+
+  /**
+   * Returns a device with its owning account.
+   * @param uuid - The device uuid.
+   * @returns {ManagedDevice} - The device.
+   * @throws {BlueAirValidationError} - If the device is unknown.
+   */
+  public getDevice(uuid: string): ManagedDevice {
+    const device = this.deviceIndex.get(uuid);
+    if (!device) {
+      throw new BlueAirValidationError(`Unknown device ${uuid}`);
+    }
+    return device;
+  }
+
+  /**
+   * Logs in all accounts that are not ready yet, then refreshes the device list.
+   * A failing account is recorded in its status and does not affect the others.
+   * @returns {Promise<AccountStatus[]>} - The state of every account.
+   */
+  public async initialize(): Promise<AccountStatus[]> {
+    const pending = Array.from(this.accounts.values()).filter(
+      (account) => !account.ready,
+    );
+
+    await mapConcurrently(pending, this.concurrency, async (account) => {
+      try {
+        await account.client.initialize(account.region, {
+          throwOnError: true,
+        });
+        account.ready = true;
+        account.error = undefined;
+      } catch (error) {
+        account.ready = false;
+        account.error = toBlueAirError(error, `Initializing ${account.id}`);
+      }
+    });
+
+    await this.refreshDevices();
+    return this.accountStatuses;
+  }
+
+  /**
+   * Reloads the devices of every ready account.
+   * The devices of a failing account are kept from the previous refresh.
+   * @returns {Promise<ManagedDevice[]>} - Every known device.
+   */
+  public async refreshDevices(): Promise<ManagedDevice[]> {
+    const ready = Array.from(this.accounts.values()).filter(
+      (account) => account.ready,
+    );
+
+    await mapConcurrently(ready, this.concurrency, async (account) => {
+      try {
+        const devices = await account.client.getDevices();
+        this.removeDevicesOf(account.id);
+        for (const device of devices) {
+          this.deviceIndex.set(device.uuid, {
+            ...device,
+            accountId: account.id,
+            accountuuid: await account.client.getAccountUuid(device.uuid),
+          });
+        }
+        account.error = undefined;
+      } catch (error) {
+        account.error = toBlueAirError(
+          error,
+          `Getting devices of ${account.id}`,
+        );
+      }
+    });
+
+    return this.devices;
+  }
+
+  /**
+   * Fetches the status of devices across accounts, one request per account.
+   * Devices of failing accounts are missing from the result; see accountStatuses.
+   * @param uuids - The devices to read. Defaults to all known devices.
+   * @returns {Promise<BlueAirDeviceStatus[]>} - The status of the devices.
+   * @throws {BlueAirValidationError} - If a device is unknown.
+   */
+  public async getDeviceStatus(
+    uuids: string[] = Array.from(this.deviceIndex.keys()),
+  ): Promise<BlueAirDeviceStatus[]> {
+    const groups = new Map<string, { accountuuid: string; uuids: string[] }>();
+    for (const uuid of uuids) {
+      const device = this.getDevice(uuid);
+      const group = groups.get(device.accountId) ?? {
+        accountuuid: device.accountuuid,
+        uuids: [],
+      };
+      group.uuids.push(uuid);
+      groups.set(device.accountId, group);
+    }
+
+    const results = await mapConcurrently(
+      Array.from(groups.entries()),
+      this.concurrency,
+      async ([accountId, group]) => {
+        const account = this.getAccount(accountId);
+        try {
+          return await account.client.getDeviceStatus(
+            group.accountuuid,
+            group.uuids,
+          );
+        } catch (error) {
+          account.error = toBlueAirError(
+            error,
+            `Getting device status of ${accountId}`,
+          );
+          return [];
+        }
+      },
+    );
+
+    return results.flat();
+  }
+
+  /**
+   * Sets a state of a device through the client of its account.
+   * @param uuid - The device uuid.
+   * @param state - The state to set.
+   * @param value - The new value.
+   * @param options - Per-call and confirmation settings.
+   * @returns {Promise<BlueAirDeviceState | undefined>} - The confirmed state when `options.confirm` is set.
+   * @throws {BlueAirValidationError} - If the device is unknown.
+   */
+  public async setDeviceStatus(
+    uuid: string,
+    state: keyof BlueAirDeviceState,
+    value: number | boolean,
+    options: SetStateOptions = {},
+  ): Promise<BlueAirDeviceState | undefined> {
+    return this.getClientForDevice(uuid).setDeviceStatus(
+      uuid,
+      state,
+      value,
+      options,
+    );
+  }
+
+  /**
+   * Sets several states of a device through the client of its account.
+   * @param uuid - The device uuid.
+   * @param changes - The states to set.
+   * @param options - Rollback and timeout settings.
+   * @returns {Promise<ApplyStateResult>} - The outcome of every field.
+   * @throws {BlueAirValidationError} - If the device is unknown or a field is invalid.
+   */
+  public async applyState(
+    uuid: string,
+    changes: Partial<WritableDeviceState>,
+    options: ApplyStateOptions = {},
+  ): Promise<ApplyStateResult> {
+    return this.getClientForDevice(uuid).applyState(uuid, changes, options);
+  }
+
+  private getAccount(id: string): ManagedAccount {
+    const account = this.accounts.get(id);
+    if (!account) {
+      throw new BlueAirValidationError(`Unknown account ${id}`);
+    }
+    return account;
+  }
+
+  private removeDevicesOf(accountId: string): void {
+    for (const [uuid, device] of this.deviceIndex) {
+      if (device.accountId === accountId) {
+        this.deviceIndex.delete(uuid);
+      }
+    }
+  }
+}
+
+/**
+ * Maps items with an async function, running at most `limit` calls at a time.
+ * @param items - The items.
+ * @param limit - The maximum number of concurrent calls.
+ * @param fn - The function to apply.
+ * @returns The results, in the order of the items.
+ */
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,546 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { BlueAirAwsClient, BlueAirEndpoints } from './BlueAirAwsClient';
+import {
+  BlueAirDeviceSensorData,
+  BlueAirDeviceState,
+  BlueAirDeviceStatus,
+  Region,
+} from './Consts';
+import { STATE_SCHEMA, WritableDeviceState } from './DeviceStateSchema';
+import { BlueAirValidationError } from './Errors';
+import { createConsoleLogger } from './Logger';
+import { FileTokenStore } from './TokenStore';
+
+/**
+ * Where the CLI reads its environment from and writes its output to.
+ */
+export type CliIO = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: { [name: string]: string | undefined };
+  // Whether stdout is a terminal, which turns watch into a live-updating table.
+  isTTY?: boolean;
+  // Ends the watch command. Defaults to Ctrl+C.
+  signal?: AbortSignal;
+};
+
+/**
+ * Contents of the config file. Flags and environment variables take precedence.
+ */
+export type CliConfig = {
+  username?: string;
+  password?: string;
+  region?: string;
+  endpoints?: BlueAirEndpoints;
+  sessionFile?: string;
+};
+
+type CliValues = {
+  'username'?: string;
+  'password'?: string;
+  'region'?: string;
+  'config'?: string;
+  'session-file'?: string;
+  'json'?: boolean;
+  'confirm'?: boolean;
+  'interval'?: string;
+  'verbose'?: boolean;
+  'help'?: boolean;
+};
+
+type CommandContext = {
+  client: BlueAirAwsClient;
+  region?: Region;
+  args: string[];
+  values: CliValues;
+  io: CliIO;
+};
+
+const CONFIG_DIR = join(homedir(), '.config', 'blueair');
+
+const USAGE = `Usage: blueair <command> [options]
+
+Commands:
+  login                       Log in and cache the session
+  devices                     List the registered devices
+  status [uuid...]            Show the status of all or some devices
+  set <uuid> <state> <value>  Set a device state, e.g. set <uuid> fanspeed 40
+  watch [uuid...]             Show live updates until interrupted
+  region                      Diagnose the region lookup
+
+Options:
+  -u, --username <email>      Account username (env BLUEAIR_USERNAME)
+  -p, --password <password>   Account password (env BLUEAIR_PASSWORD)
+  -r, --region <region>       EU, US, AU, CN or RU (env BLUEAIR_REGION)
+  -c, --config <file>         JSON config file (env BLUEAIR_CONFIG,
+                              default ~/.config/blueair/config.json)
+      --session-file <file>   Session cache (env BLUEAIR_SESSION_FILE,
+                              default ~/.config/blueair/sessions.json)
+      --json                  Print JSON instead of tables
+      --confirm               With set, wait until the device reports the value
+      --interval <ms>         With watch, the polling interval
+  -v, --verbose               Log requests to stderr
+  -h, --help                  Show this help
+`;
+
+const COMMANDS: {
+  [command: string]: (context: CommandContext) => Promise<void>;
+} = {
+  login,
+  devices,
+  status,
+  set,
+  watch,
+  region,
+};
+
+/**
+ * Runs the blueair command line tool.
+ * @param argv - The arguments after the executable, e.g. ['status', '--json'].
+ * @param io - Output streams and environment. Defaults to the process.
+ * @returns {Promise<number>} - The exit code: 0 on success, 1 on errors and 2 on usage errors.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = processIO(),
+): Promise<number> {
+  let values: CliValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'username': { type: 'string', short: 'u' },
+        'password': { type: 'string', short: 'p' },
+        'region': { type: 'string', short: 'r' },
+        'config': { type: 'string', short: 'c' },
+        'session-file': { type: 'string' },
+        'json': { type: 'boolean' },
+        'confirm': { type: 'boolean' },
+        'interval': { type: 'string' },
+        'verbose': { type: 'boolean', short: 'v' },
+        'help': { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [command, ...args] = positionals;
+  if (values.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (!command || !COMMANDS[command]) {
+    io.stderr(command ? `Unknown command: ${command}\n\n${USAGE}` : USAGE);
+    return 2;
+  }
+
+  try {
+    const config = loadConfig(values, io.env);
+    const username =
+      values.username ?? io.env.BLUEAIR_USERNAME ?? config.username;
+    const password =
+      values.password ?? io.env.BLUEAIR_PASSWORD ?? config.password;
+    if (!username || !password) {
+      throw new BlueAirValidationError(
+        'Missing credentials: use --username and --password, ' +
+          'BLUEAIR_USERNAME and BLUEAIR_PASSWORD, or the config file',
+      );
+    }
+
+    const client = new BlueAirAwsClient(username, password, {
+      endpoints: config.endpoints,
+      tokenStore: new FileTokenStore(
+        values['session-file'] ??
+          io.env.BLUEAIR_SESSION_FILE ??
+          config.sessionFile ??
+          join(CONFIG_DIR, 'sessions.json'),
+      ),
+      logger: values.verbose
+        ? createConsoleLogger('debug', stderrConsole(io))
+        : undefined,
+    });
+
+    await COMMANDS[command]({
+      client,
+      region: parseRegion(
+        values.region ?? io.env.BLUEAIR_REGION ?? config.region,
+      ),
+      args,
+      values,
+      io,
+    });
+    return 0;
+  } catch (error) {
+    io.stderr(`Error: ${error instanceof Error ? error.message : error}\n`);
+    return error instanceof BlueAirValidationError ? 2 : 1;
+  }
+}
+
+async function login({ client, region, io }: CommandContext): Promise<void> {
+  await client.initialize(region, { throwOnError: true });
+  io.stdout(`Logged in (region ${client.region})\n`);
+}
+
+async function devices({
+  client,
+  region,
+  values,
+  io,
+}: CommandContext): Promise<void> {
+  await client.initialize(region, { throwOnError: true });
+  const list = await client.getDevices();
+
+  if (values.json) {
+    io.stdout(`${JSON.stringify(list, null, 2)}\n`);
+    return;
+  }
+  io.stdout(
+    formatTable([
+      ['UUID', 'TYPE', 'MAC', 'WIFI FIRMWARE', 'ACCOUNT'],
+      ...list.map((device) => [
+        device.uuid,
+        device.type,
+        device.mac,
+        device['wifi-firmware'],
+        device.name,
+      ]),
+    ]),
+  );
+}
+
+async function status({
+  client,
+  region,
+  args,
+  values,
+  io,
+}: CommandContext): Promise<void> {
+  await client.initialize(region, { throwOnError: true });
+  const { accountuuid, uuids } = await resolveDevices(client, args);
+  const statuses = await client.getDeviceStatus(accountuuid, uuids);
+
+  if (values.json) {
+    io.stdout(`${JSON.stringify(statuses, null, 2)}\n`);
+    return;
+  }
+  io.stdout(formatStatusTable(statuses));
+}
+
+async function set({
+  client,
+  region,
+  args,
+  values,
+  io,
+}: CommandContext): Promise<void> {
+  if (args.length !== 3) {
+    throw new BlueAirValidationError(
+      'Usage: blueair set <uuid> <state> <value>',
+    );
+  }
+  const [uuid, state, text] = args;
+  const value = parseStateValue(state, text);
+
+  await client.initialize(region, { throwOnError: true });
+  const confirmed = await client.setDeviceStatus(
+    uuid,
+    state as keyof BlueAirDeviceState,
+    value,
+    { confirm: values.confirm },
+  );
+
+  if (values.json) {
+    io.stdout(`${JSON.stringify(confirmed ?? { [state]: value }, null, 2)}\n`);
+    return;
+  }
+  io.stdout(
+    `${confirmed ? 'Confirmed' : 'Set'} ${state} of ${uuid} to ${value}\n`,
+  );
+}
+
+async function watch({
+  client,
+  region,
+  args,
+  values,
+  io,
+}: CommandContext): Promise<void> {
+  await client.initialize(region, { throwOnError: true });
+  const { accountuuid, uuids } = await resolveDevices(client, args);
+  const interval = values.interval ? Number(values.interval) : undefined;
+  if (interval !== undefined && !(interval > 0)) {
+    throw new BlueAirValidationError('--interval must be a positive number');
+  }
+
+  const statuses = new Map<string, BlueAirDeviceStatus>(
+    (await client.getDeviceStatus(accountuuid, uuids)).map((status) => [
+      status.id,
+      status,
+    ]),
+  );
+  const live = io.isTTY && !values.json;
+  const render = () => {
+    io.stdout(
+      `\x1b[2J\x1b[H${formatStatusTable(Array.from(statuses.values()))}`,
+    );
+  };
+
+  const subscription = await client.subscribe(
+    accountuuid,
+    uuids,
+    (event) => {
+      if (event.type === 'connectionLost') {
+        return;
+      }
+      const current = statuses.get(event.uuid);
+      if (current && event.type === 'stateChanged') {
+        current.state = event.state;
+      } else if (current && event.type === 'sensorData') {
+        current.sensorData = event.sensorData;
+      }
+
+      if (live) {
+        render();
+      } else if (values.json) {
+        io.stdout(`${JSON.stringify(event)}\n`);
+      } else {
+        io.stdout(
+          `${new Date(event.timestamp).toISOString()} ${event.uuid} ${Object.entries(
+            event.changes,
+          )
+            .map(([field, value]) => `${field}=${value}`)
+            .join(' ')}\n`,
+        );
+      }
+    },
+    { interval },
+  );
+
+  if (live) {
+    render();
+  }
+  await waitForAbort(io.signal ?? interruptSignal());
+  subscription.stop();
+}
+
+async function region({ client, values, io }: CommandContext): Promise<void> {
+  const diagnostics = await client.diagnoseEndpoint();
+
+  if (values.json) {
+    io.stdout(`${JSON.stringify(diagnostics, null, 2)}\n`);
+    return;
+  }
+  io.stdout(
+    formatTable([
+      ['Homehost URL', diagnostics.url],
+      ['Returned host', diagnostics.host],
+      ['AWS region', diagnostics.awsRegion],
+      ['Region', diagnostics.region],
+      ['API URL', diagnostics.apiUrl],
+      ['Took', `${diagnostics.elapsed} ms`],
+    ]),
+  );
+}
+
+/**
+ * Finds the account uuid and the devices to show: the given ones, or all.
+ */
+async function resolveDevices(
+  client: BlueAirAwsClient,
+  uuids: string[],
+): Promise<{ accountuuid: string; uuids: string[] }> {
+  const registered = await client.getDevices();
+  if (registered.length === 0) {
+    throw new BlueAirValidationError('The account has no devices');
+  }
+
+  const unknown = uuids.filter(
+    (uuid) => !registered.some((device) => device.uuid === uuid),
+  );
+  if (unknown.length > 0) {
+    throw new BlueAirValidationError(`Unknown devices: ${unknown.join(', ')}`);
+  }
+
+  return {
+    accountuuid: await client.getAccountUuid(registered[0].uuid),
+    uuids: uuids.length > 0 ? uuids : registered.map((device) => device.uuid),
+  };
+}
+
+/**
+ * Parses the value of `blueair set` according to the schema of the writable state.
+ */
+function parseStateValue(state: string, text: string): number | boolean {
+  if (!Object.prototype.hasOwnProperty.call(STATE_SCHEMA, state)) {
+    throw new BlueAirValidationError(
+      `Unknown state ${state}. Known states: ${Object.keys(STATE_SCHEMA).join(', ')}`,
+    );
+  }
+  const { type } = STATE_SCHEMA[state as keyof WritableDeviceState];
+
+  if (type === 'boolean') {
+    if (['true', 'on', '1'].includes(text.toLowerCase())) {
+      return true;
+    }
+    if (['false', 'off', '0'].includes(text.toLowerCase())) {
+      return false;
+    }
+    throw new BlueAirValidationError(`${state} must be on or off`);
+  }
+
+  const value = Number(text);
+  if (text.trim() === '' || !isFinite(value)) {
+    throw new BlueAirValidationError(`${state} must be a number`);
+  }
+  return value;
+}
+
+function parseRegion(value?: string): Region | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const region = Object.values(Region).find(
+    (region) => region === value.toUpperCase(),
+  );
+  if (!region) {
+    throw new BlueAirValidationError(
+      `Unknown region ${value}. Known regions: ${Object.values(Region).join(', ')}`,
+    );
+  }
+  return region;
+}
+
+/**
+ * Reads the config file given by --config or BLUEAIR_CONFIG, or the default one if it exists.
+ */
+function loadConfig(values: CliValues, env: CliIO['env']): CliConfig {
+  const explicit = values.config ?? env.BLUEAIR_CONFIG;
+  const path = explicit ?? join(CONFIG_DIR, 'config.json');
+  if (!explicit && !existsSync(path)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as CliConfig;
+  } catch (error) {
+    throw new BlueAirValidationError(
+      `Cannot read config file ${path}: ${(error as Error).message}`,
+      { cause: error },
+    );
+  }
+}
+
+function formatStatusTable(statuses: BlueAirDeviceStatus[]): string {
+  const show = (value: unknown) =>
+    value === undefined
+      ? '-'
+      : typeof value === 'boolean'
+        ? value
+          ? 'on'
+          : 'off'
+        : String(value);
+  const sensor = (
+    status: BlueAirDeviceStatus,
+    field: keyof BlueAirDeviceSensorData,
+  ) => show(status.sensorData[field]);
+
+  return formatTable([
+    [
+      'UUID',
+      'NAME',
+      'FAMILY',
+      'STANDBY',
+      'FAN',
+      'AUTO',
+      'NIGHT',
+      'CHILDLOCK',
+      'PM2.5',
+      'PM10',
+      'TEMP',
+      'HUMIDITY',
+      'FILTER',
+    ],
+    ...statuses.map((status) => [
+      status.id,
+      status.name,
+      status.capabilities.family,
+      show(status.state.standby),
+      show(status.state.fanspeed),
+      show(status.state.automode),
+      show(status.state.nightmode),
+      show(status.state.childlock),
+      sensor(status, 'pm2_5'),
+      sensor(status, 'pm10'),
+      sensor(status, 'temperature'),
+      sensor(status, 'humidity'),
+      status.state.filterusage === undefined
+        ? '-'
+        : `${status.state.filterusage}%`,
+    ]),
+  ]);
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => (row[column] ?? '').length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => (cell ?? '').padEnd(widths[column]))
+        .join('  ')
+        .trimEnd(),
+    )
+    .map((line) => `${line}\n`)
+    .join('');
+}
+
+function stderrConsole(
+  io: CliIO,
+): Pick<Console, 'debug' | 'info' | 'warn' | 'error'> {
+  const write = (...data: unknown[]) =>
+    io.stderr(
+      `${data
+        .map((item) => (typeof item === 'string' ? item : JSON.stringify(item)))
+        .join(' ')}\n`,
+    );
+  return { debug: write, info: write, warn: write, error: write };
+}
+
+function waitForAbort(signal: AbortSignal): Promise<void> {
+  if (signal.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) =>
+    signal.addEventListener('abort', () => resolve(), { once: true }),
+  );
+}
+
+function interruptSignal(): AbortSignal {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  return controller.signal;
+}
+
+function processIO(): CliIO {
+  return {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    env: process.env,
+    isTTY: process.stdout.isTTY,
+  };
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
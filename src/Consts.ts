@@ -1,3 +1,6 @@
+import { AirQualitySummary } from './AirQuality';
+import { DeviceCapabilities } from './DeviceCapabilities';
+
 export enum Region {
   EU = 'EU',
   AU = 'AU',
@@ -110,8 +113,16 @@ export const BLUEAIR_CONFIG: APIConfig = Object.keys(RegionMap).reduce(
   {} as APIConfig,
 );
 
-export const LOGIN_EXPIRATION = 3600 * 1000 * 24; // n hours in milliseconds
-export const BLUEAIR_API_TIMEOUT = 10 * 1000; // n seconds in milliseconds
+export const LOGIN_EXPIRATION = 3600 * 1000 * 24; // n hours in milliseconds, used when a token carries no exp claim
+export const TOKEN_REFRESH_SKEW = 5 * 60 * 1000; // n minutes in milliseconds before expiry to refresh
+export const BLUEAIR_API_TIMEOUT = 10 * 1000; // n seconds in milliseconds, default of the timeout client option
+export const CONFIRM_TIMEOUT = 10 * 1000; // n seconds in milliseconds to wait for a device to confirm a write
+export const CONFIRM_INTERVAL = 1000; // n milliseconds between status reads while confirming
+
+// Gigya error codes that reject the session or the credentials, as opposed to server
+// errors and rate limits: invalid request signature, unauthorized user (expired or
+// revoked session), invalid login ID or password, and unknown login ID.
+export const GIGYA_REJECTION_CODES = [403002, 403005, 403042, 403047];
 
 export type BlueAirDeviceStatusResponse = {
   deviceInfo: {
@@ -128,20 +139,27 @@ export type BlueAirDeviceStatusResponse = {
       };
       _it: string; //"urn:blueair:openapi:version:healthprotect:0.0.5";
     };
-    sensordata: {
-      n: string;
-      t: number;
-      v: number;
-    }[];
-    states: {
-      n: string;
-      t: number;
-      v?: number;
-      vb?: boolean;
-    }[];
+    sensordata: BlueAirSensorDataEntry[];
+    states: BlueAirStateEntry[];
   }[];
 };
 
+export type BlueAirDeviceInfo = BlueAirDeviceStatusResponse['deviceInfo'][number];
+
+export type BlueAirSensorDataEntry = {
+  n: string;
+  t: number;
+  v: number;
+};
+
+export type BlueAirStateEntry = {
+  n: string;
+  t: number;
+  v?: number;
+  vb?: boolean;
+  vs?: string;
+};
+
 export type Config = {
   name: string;
   username: string;
@@ -243,6 +261,22 @@ export type BlueAirDeviceStatus = {
   serial: string;
   state: BlueAirDeviceState;
   sensorData: BlueAirDeviceSensorData;
+  // Time of each sensor reading, in epoch milliseconds.
+  sensorUpdatedAt: { [sensor in keyof BlueAirDeviceSensorData]?: number };
+  // Time each state was last changed, in epoch milliseconds.
+  stateUpdatedAt: { [state in keyof BlueAirDeviceState]?: number };
+  // Sensors and states the client does not know yet, by their raw names.
+  extras: BlueAirStatusExtras;
+  capabilities: DeviceCapabilities;
+  // Index, category and dominant pollutant of the current readings.
+  airQuality?: AirQualitySummary;
+  // The unmodified `deviceInfo` entry, when requested with the raw option.
+  raw?: BlueAirDeviceInfo;
+};
+
+export type BlueAirStatusExtras = {
+  sensors: { [name: string]: number };
+  states: { [name: string]: number | boolean | string };
 };
 
 export type BlueAirSetStateBody = {
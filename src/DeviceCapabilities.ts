@@ -0,0 +1,206 @@
+import { BlueAirDeviceSensorData, BlueAirDeviceState } from './Consts';
+import { BlueAirValidationError } from './Errors';
+
+/**
+ * Inclusive range of a numeric state.
+ */
+export type NumericRange = {
+  min: number;
+  max: number;
+  // Distance between two accepted values.
+  step: number;
+};
+
+/**
+ * What a device family can do.
+ */
+export type DeviceFamilyCapabilities = {
+  states: {
+    germshield: boolean;
+    disinfection: boolean;
+    automode: boolean;
+    nightmode: boolean;
+    childlock: boolean;
+    standby: boolean;
+    // Null if the brightness cannot be changed.
+    brightness: NumericRange | null;
+    // Null if the fan speed cannot be changed.
+    fanspeed: NumericRange | null;
+  };
+  sensors: (keyof BlueAirDeviceSensorData)[];
+};
+
+/**
+ * Capabilities of a device, derived from its model URN.
+ */
+export type DeviceCapabilities = DeviceFamilyCapabilities & {
+  // e.g. 'healthprotect', or 'unknown' if the URN could not be parsed.
+  family: string;
+  // Version of the API schema of the family, e.g. '0.0.5'.
+  schemaVersion: string | null;
+  // False for families missing from the registry, which are assumed to support
+  // only standby and the fan speed.
+  known: boolean;
+};
+
+// Capability flag governing each writable state
+const STATE_CAPABILITY: {
+  [state in keyof BlueAirDeviceState]?: keyof DeviceFamilyCapabilities['states'];
+} = {
+  germshield: 'germshield',
+  gsnm: 'germshield',
+  disinfection: 'disinfection',
+  disinftime: 'disinfection',
+  automode: 'automode',
+  nightmode: 'nightmode',
+  childlock: 'childlock',
+  standby: 'standby',
+  brightness: 'brightness',
+  fanspeed: 'fanspeed',
+};
+
+const PERCENT: NumericRange = { min: 0, max: 100, step: 1 };
+
+// Assumed for families missing from the registry: what every purifier can do
+const UNKNOWN_FAMILY: DeviceFamilyCapabilities = {
+  states: {
+    germshield: false,
+    disinfection: false,
+    automode: false,
+    nightmode: false,
+    childlock: false,
+    standby: true,
+    brightness: null,
+    fanspeed: PERCENT,
+  },
+  sensors: [],
+};
+
+const registry = new Map<string, DeviceFamilyCapabilities>([
+  [
+    'healthprotect',
+    {
+      states: {
+        germshield: true,
+        disinfection: true,
+        automode: true,
+        nightmode: true,
+        childlock: true,
+        standby: true,
+        brightness: PERCENT,
+        fanspeed: PERCENT,
+      },
+      sensors: [
+        'fanspeed',
+        'hcho',
+        'humidity',
+        'pm1',
+        'pm10',
+        'pm2_5',
+        'temperature',
+        'voc',
+      ],
+    },
+  ],
+  [
+    'dustmagnet',
+    {
+      states: {
+        germshield: false,
+        disinfection: false,
+        automode: true,
+        nightmode: true,
+        childlock: true,
+        standby: true,
+        brightness: PERCENT,
+        fanspeed: PERCENT,
+      },
+      sensors: ['fanspeed', 'humidity', 'pm1', 'pm10', 'pm2_5', 'temperature'],
+    },
+  ],
+]);
+
+/**
+ * Parses a model URN such as `urn:blueair:openapi:version:healthprotect:0.0.5`.
+ * @param urn - The `_it` value of the device configuration.
+ * @returns The family and schema version, or null if the URN has another format.
+ */
+export function parseModelUrn(
+  urn: string,
+): { family: string; schemaVersion: string | null } | null {
+  const match = /^urn:blueair:openapi:version:([^:]+)(?::([^:]+))?$/i.exec(
+    urn?.trim() ?? '',
+  );
+  if (!match) {
+    return null;
+  }
+  return { family: match[1].toLowerCase(), schemaVersion: match[2] ?? null };
+}
+
+/**
+ * Looks up the capabilities of a model.
+ * @param model - The model URN of the device.
+ * @returns The capabilities; unknown families are assumed to support only standby
+ * and the fan speed.
+ */
+export function getCapabilities(model: string): DeviceCapabilities {
+  const parsed = parseModelUrn(model);
+  const family = parsed?.family ?? 'unknown';
+  const capabilities = registry.get(family);
+
+  return {
+    ...(capabilities ?? UNKNOWN_FAMILY),
+    family,
+    schemaVersion: parsed?.schemaVersion ?? null,
+    known: capabilities !== undefined,
+  };
+}
+
+/**
+ * Adds a device family to the registry or replaces one, e.g. for a model released
+ * after this version of the library.
+ * @param family - The family name as it appears in the model URN.
+ * @param capabilities - What devices of the family can do.
+ */
+export function registerDeviceFamily(
+  family: string,
+  capabilities: DeviceFamilyCapabilities,
+): void {
+  registry.set(family.toLowerCase(), capabilities);
+}
+
+/**
+ * Checks that a device supports setting a state to a value.
+ * States without a capability flag, like read-only ones, are not checked.
+ * @param capabilities - The capabilities of the device.
+ * @param state - The state to set.
+ * @param value - The value to set.
+ * @throws {BlueAirValidationError} - If the state is unsupported or the value out of range.
+ */
+export function assertStateSupported(
+  capabilities: DeviceCapabilities,
+  state: keyof BlueAirDeviceState,
+  value: number | boolean,
+): void {
+  const capability = STATE_CAPABILITY[state];
+  if (!capability) {
+    return;
+  }
+
+  const supported = capabilities.states[capability];
+  if (!supported) {
+    throw new BlueAirValidationError(
+      `${capabilities.family} devices do not support ${state}`,
+    );
+  }
+
+  if (typeof supported === 'object' && typeof value === 'number') {
+    const { min, max, step } = supported;
+    if (value < min || value > max || (value - min) % step !== 0) {
+      throw new BlueAirValidationError(
+        `Invalid ${state} value ${value} for ${capabilities.family} devices. ` +
+          `Acceptable values are between ${min} and ${max} in steps of ${step}.`,
+      );
+    }
+  }
+}
@@ -0,0 +1,419 @@
+import { EventEmitter } from 'events';
+import {
+  BlueAirDeviceSensorData,
+  BlueAirDeviceState,
+  BlueAirDeviceStatus,
+  defaultConfig,
+} from './Consts';
+import { Logger, noopLogger } from './Logger';
+
+/**
+ * What the poller needs from the client.
+ */
+export interface DeviceStatusReader {
+  getDeviceStatus(
+    accountuuid: string,
+    uuids: string[],
+  ): Promise<BlueAirDeviceStatus[]>;
+}
+
+export type DevicePollerOptions = {
+  // Time between polls in milliseconds.
+  interval?: number;
+  // Upper bound for the interval while backing off after failures, in milliseconds.
+  maxBackoff?: number;
+};
+
+/**
+ * A single field that changed between two polls.
+ */
+export type DeviceFieldChange = {
+  uuid: string;
+  // Whether the field belongs to the device state or its sensor data.
+  source: 'state' | 'sensorData';
+  field: keyof BlueAirDeviceState | keyof BlueAirDeviceSensorData;
+  oldValue: unknown;
+  newValue: unknown;
+  timestamp: number;
+};
+
+/**
+ * The state fields of a device that changed in a poll.
+ */
+export type StateChangedEvent = {
+  type: 'stateChanged';
+  uuid: string;
+  // The whole state as polled.
+  state: BlueAirDeviceState;
+  // The changed fields with their new value; undefined for fields no longer reported.
+  changes: Partial<BlueAirDeviceState>;
+  timestamp: number;
+};
+
+/**
+ * The sensor readings of a device that changed in a poll.
+ */
+export type SensorDataEvent = {
+  type: 'sensorData';
+  uuid: string;
+  // All readings as polled.
+  sensorData: BlueAirDeviceSensorData;
+  // The changed readings with their new value; undefined for readings no longer reported.
+  changes: Partial<BlueAirDeviceSensorData>;
+  timestamp: number;
+};
+
+/**
+ * The first failed poll after a successful one.
+ */
+export type ConnectionLostEvent = {
+  type: 'connectionLost';
+  error: unknown;
+  timestamp: number;
+};
+
+export type DeviceEvent =
+  StateChangedEvent | SensorDataEvent | ConnectionLostEvent;
+
+export type DevicePollerEvents = {
+  // Every successful poll, with all statuses.
+  poll: { statuses: BlueAirDeviceStatus[]; timestamp: number };
+  // Every changed field. The first poll reports every field with oldValue undefined.
+  change: DeviceFieldChange;
+  // The changed fields of a device, grouped per poll.
+  stateChanged: StateChangedEvent;
+  sensorData: SensorDataEvent;
+  connectionLost: ConnectionLostEvent;
+  // A failed poll, with the number of failures in a row.
+  error: { error: unknown; consecutiveFailures: number };
+};
+
+export interface DevicePoller {
+  on<K extends keyof DevicePollerEvents>(
+    event: K,
+    listener: (payload: DevicePollerEvents[K]) => void,
+  ): this;
+  once<K extends keyof DevicePollerEvents>(
+    event: K,
+    listener: (payload: DevicePollerEvents[K]) => void,
+  ): this;
+  off<K extends keyof DevicePollerEvents>(
+    event: K,
+    listener: (payload: DevicePollerEvents[K]) => void,
+  ): this;
+  emit<K extends keyof DevicePollerEvents>(
+    event: K,
+    payload: DevicePollerEvents[K],
+  ): boolean;
+}
+
+/**
+ * Polls the status of a set of devices with one `/r/initial` call per tick and
+ * emits the fields that changed since the previous poll, one by one as `change`
+ * and grouped per device as `stateChanged` and `sensorData`. The cloud offers no
+ * push channel this client can consume, so changes are seen at most once per interval.
+ */
+export class DevicePoller extends EventEmitter {
+  private uuids: Set<string>;
+  private snapshots = new Map<string, BlueAirDeviceStatus>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private paused = false;
+  private polling: Promise<void> | null = null;
+  private queued = false;
+  private consecutiveFailures = 0;
+  private readonly interval: number;
+  private readonly maxBackoff: number;
+
+  /**
+   * @param client - The client used to read device status.
+   * @param accountuuid - The main account uuid.
+   * @param uuids - The devices to poll.
+   * @param options - Interval and backoff settings.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    private readonly client: DeviceStatusReader,
+    public readonly accountuuid: string,
+    uuids: string[],
+    options: DevicePollerOptions = {},
+    private readonly logger: Logger = noopLogger,
+  ) {
+    super();
+    this.uuids = new Set(uuids);
+    this.interval = options.interval ?? defaultConfig.pollingInterval;
+    this.maxBackoff = options.maxBackoff ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Whether the poller is started and not paused.
+   */
+  public get isActive(): boolean {
+    return this.running && !this.paused;
+  }
+
+  /**
+   * The latest known status of each device.
+   */
+  public get statuses(): BlueAirDeviceStatus[] {
+    return Array.from(this.snapshots.values());
+  }
+
+  /**
+   * Starts polling, beginning with an immediate poll.
+   * @returns {Promise<void>} - Resolves when the first poll has completed.
+   */
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.paused = false;
+    await this.tick();
+  }
+
+  /**
+   * Stops polling. Snapshots are kept, so a restart only reports what changed meanwhile.
+   */
+  public stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Suspends polling without forgetting the devices or the schedule.
+   */
+  public pause(): void {
+    this.paused = true;
+    this.clearTimer();
+  }
+
+  /**
+   * Resumes polling after pause(), beginning with an immediate poll.
+   * @returns {Promise<void>} - Resolves when the first poll has completed.
+   */
+  public async resume(): Promise<void> {
+    if (!this.running || !this.paused) {
+      return;
+    }
+    this.paused = false;
+    await this.tick();
+  }
+
+  /**
+   * Polls right away, e.g. after a write, and restarts the interval from now. A poll
+   * already in flight may have read the status before the write, so a fresh one is
+   * queued after it.
+   * @returns {Promise<void>} - Resolves when the fresh poll has completed.
+   */
+  public async pollNow(): Promise<void> {
+    this.clearTimer();
+    await this.tick(true);
+  }
+
+  /**
+   * Adds a device to the next polls.
+   * @param uuid - The device uuid.
+   */
+  public addDevice(uuid: string): void {
+    this.uuids.add(uuid);
+  }
+
+  /**
+   * Removes a device from the polls and forgets its snapshot.
+   * @param uuid - The device uuid.
+   */
+  public removeDevice(uuid: string): void {
+    this.uuids.delete(uuid);
+    this.snapshots.delete(uuid);
+  }
+
+  /**
+   * Polls once and schedules the next poll. Overlapping calls share the same poll,
+   * except that a fresh call waits for one that starts after the poll in flight.
+   * Fresh calls made meanwhile share that queued poll.
+   * @param fresh - Whether a poll already in flight is too old to share.
+   */
+  private async tick(fresh = false): Promise<void> {
+    if (!this.polling) {
+      this.track(this.poll());
+    } else if (fresh && !this.queued) {
+      this.queued = true;
+      this.track(
+        this.polling.then(() => {
+          this.queued = false;
+          return this.poll();
+        }),
+      );
+    }
+    await this.polling;
+    this.schedule();
+  }
+
+  /**
+   * Makes a poll the one in flight until it completes.
+   */
+  private track(polling: Promise<void>): void {
+    const tracked: Promise<void> = polling.finally(() => {
+      if (this.polling === tracked) {
+        this.polling = null;
+      }
+    });
+    this.polling = tracked;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.uuids.size === 0) {
+      return;
+    }
+
+    try {
+      const statuses = await this.client.getDeviceStatus(
+        this.accountuuid,
+        Array.from(this.uuids),
+      );
+      const timestamp = Date.now();
+      this.consecutiveFailures = 0;
+
+      for (const status of statuses) {
+        if (!this.uuids.has(status.id)) {
+          continue;
+        }
+        const previous = this.snapshots.get(status.id);
+        this.snapshots.set(status.id, status);
+        const changes = diffStatus(previous, status, timestamp);
+        for (const change of changes) {
+          this.emit('change', change);
+        }
+        this.emitDeviceChanges(status, changes, timestamp);
+      }
+
+      this.emit('poll', { statuses, timestamp });
+    } catch (error) {
+      this.consecutiveFailures++;
+      this.logger.warn('Polling device status failed', {
+        accountuuid: this.accountuuid,
+        attempt: this.consecutiveFailures,
+        error,
+      });
+      if (this.consecutiveFailures === 1) {
+        this.emit('connectionLost', {
+          type: 'connectionLost',
+          error,
+          timestamp: Date.now(),
+        });
+      }
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', {
+          error,
+          consecutiveFailures: this.consecutiveFailures,
+        });
+      }
+    }
+  }
+
+  /**
+   * Emits the changes of a device grouped into one event per source.
+   */
+  private emitDeviceChanges(
+    status: BlueAirDeviceStatus,
+    changes: DeviceFieldChange[],
+    timestamp: number,
+  ): void {
+    const changed = (source: DeviceFieldChange['source']) =>
+      Object.fromEntries(
+        changes
+          .filter((change) => change.source === source)
+          .map((change) => [change.field, change.newValue]),
+      );
+
+    const state = changed('state');
+    if (Object.keys(state).length > 0) {
+      this.emit('stateChanged', {
+        type: 'stateChanged',
+        uuid: status.id,
+        state: status.state,
+        changes: state,
+        timestamp,
+      });
+    }
+    const sensorData = changed('sensorData');
+    if (Object.keys(sensorData).length > 0) {
+      this.emit('sensorData', {
+        type: 'sensorData',
+        uuid: status.id,
+        sensorData: status.sensorData,
+        changes: sensorData,
+        timestamp,
+      });
+    }
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (!this.isActive) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, this.nextDelay());
+  }
+
+  /**
+   * The interval, doubled for every consecutive failure up to maxBackoff.
+   */
+  private nextDelay(): number {
+    if (this.consecutiveFailures === 0) {
+      return this.interval;
+    }
+    return Math.min(
+      this.interval * Math.pow(2, this.consecutiveFailures),
+      Math.max(this.maxBackoff, this.interval),
+    );
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Lists the state and sensor fields that differ between two snapshots of a device.
+ * @param previous - The previous snapshot, or undefined for the first one.
+ * @param current - The current snapshot.
+ * @param timestamp - The time of the current snapshot.
+ * @returns The changed fields.
+ */
+export function diffStatus(
+  previous: BlueAirDeviceStatus | undefined,
+  current: BlueAirDeviceStatus,
+  timestamp = Date.now(),
+): DeviceFieldChange[] {
+  const changes: DeviceFieldChange[] = [];
+  const sources = ['state', 'sensorData'] as const;
+
+  for (const source of sources) {
+    const before: { [field: string]: unknown } = previous?.[source] ?? {};
+    const after: { [field: string]: unknown } = current[source] ?? {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const field of fields) {
+      if (before[field] !== after[field]) {
+        changes.push({
+          uuid: current.id,
+          source,
+          field: field as DeviceFieldChange['field'],
+          oldValue: before[field],
+          newValue: after[field],
+          timestamp,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
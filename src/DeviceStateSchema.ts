@@ -0,0 +1,145 @@
+import { BlueAirDeviceState } from './Consts';
+import { assertStateSupported, DeviceCapabilities } from './DeviceCapabilities';
+import { BlueAirValidationError } from './Errors';
+
+/**
+ * The states that can be written with setDeviceStatus.
+ */
+export type WritableDeviceState = Pick<
+  BlueAirDeviceState,
+  | 'standby'
+  | 'nightmode'
+  | 'fanspeed'
+  | 'automode'
+  | 'brightness'
+  | 'childlock'
+  | 'germshield'
+  | 'gsnm'
+  | 'disinfection'
+>;
+
+/**
+ * Type and range of a writable state.
+ */
+export type StateFieldSchema =
+  | { type: 'boolean'; description: string }
+  | { type: 'number'; min: number; max: number; description: string };
+
+/**
+ * Every writable state with its type and range, in the order a batch writes them.
+ * Standby is handled separately: leaving it comes first, entering it comes last.
+ * Mode switches follow the fan speed, since setting the speed may switch them off.
+ */
+export const STATE_SCHEMA: {
+  [state in keyof Required<WritableDeviceState>]: StateFieldSchema;
+} = {
+  standby: { type: 'boolean', description: 'Standby (off)' },
+  fanspeed: { type: 'number', min: 0, max: 100, description: 'Fan speed' },
+  nightmode: { type: 'boolean', description: 'Night mode' },
+  automode: { type: 'boolean', description: 'Automatic fan speed' },
+  brightness: { type: 'number', min: 0, max: 100, description: 'Brightness' },
+  childlock: { type: 'boolean', description: 'Child lock' },
+  germshield: { type: 'boolean', description: 'GermShield' },
+  gsnm: { type: 'boolean', description: 'GermShield in night mode' },
+  disinfection: { type: 'boolean', description: 'Disinfection' },
+};
+
+/**
+ * Value type of every state a device reports. String states are firmware versions
+ * and cannot be set.
+ */
+export const STATE_VALUE_TYPES: {
+  [state in keyof Required<BlueAirDeviceState>]: 'boolean' | 'number' | 'string';
+} = {
+  cfv: 'string',
+  germshield: 'boolean',
+  gsnm: 'boolean',
+  standby: 'boolean',
+  fanspeed: 'number',
+  childlock: 'boolean',
+  nightmode: 'boolean',
+  mfv: 'string',
+  automode: 'boolean',
+  ofv: 'string',
+  brightness: 'number',
+  safetyswitch: 'boolean',
+  filterusage: 'number',
+  disinfection: 'boolean',
+  disinftime: 'number',
+};
+
+/**
+ * Checks a set of state changes against the schema and, if given, the device capabilities.
+ * @param changes - The states to write.
+ * @param capabilities - The capabilities of the device, if known.
+ * @throws {BlueAirValidationError} - Listing every invalid field.
+ */
+export function validateStateChanges(
+  changes: Partial<BlueAirDeviceState>,
+  capabilities?: DeviceCapabilities,
+): void {
+  const problems: string[] = [];
+  const fields = Object.keys(changes) as (keyof BlueAirDeviceState)[];
+
+  if (fields.length === 0) {
+    throw new BlueAirValidationError('No states to apply');
+  }
+
+  for (const field of fields) {
+    const value = changes[field];
+    const schema = STATE_SCHEMA[field as keyof WritableDeviceState];
+
+    if (!schema) {
+      problems.push(`${field} is not writable`);
+    } else if (schema.type === 'boolean' && typeof value !== 'boolean') {
+      problems.push(`${field} must be true or false`);
+    } else if (
+      schema.type === 'number' &&
+      (typeof value !== 'number' ||
+        isNaN(value) ||
+        value < schema.min ||
+        value > schema.max)
+    ) {
+      problems.push(
+        `${field} must be a number between ${schema.min} and ${schema.max}`,
+      );
+    } else if (capabilities) {
+      try {
+        assertStateSupported(capabilities, field, value as number | boolean);
+      } catch (error) {
+        problems.push((error as Error).message);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new BlueAirValidationError(`Invalid states: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Orders state changes for writing: leaving standby first, then the schema order,
+ * and entering standby last.
+ * @param changes - The states to write.
+ * @returns The fields with their values, in writing order.
+ */
+export function orderStateChanges(
+  changes: Partial<WritableDeviceState>,
+): [keyof WritableDeviceState, number | boolean][] {
+  const ordered = (Object.keys(STATE_SCHEMA) as (keyof WritableDeviceState)[])
+    .filter((field) => field !== 'standby' && changes[field] !== undefined)
+    .map(
+      (field) =>
+        [field, changes[field] as number | boolean] as [
+          keyof WritableDeviceState,
+          number | boolean,
+        ],
+    );
+
+  if (changes.standby === false) {
+    ordered.unshift(['standby', false]);
+  } else if (changes.standby === true) {
+    ordered.push(['standby', true]);
+  }
+  return ordered;
+}
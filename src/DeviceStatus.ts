@@ -0,0 +1,182 @@
+import { AirQualityStandard, summarizeAirQuality } from './AirQuality';
+import {
+  BlueAirDeviceInfo,
+  BlueAirDeviceSensorData,
+  BlueAirDeviceSensorDataMap,
+  BlueAirDeviceState,
+  BlueAirDeviceStatus,
+  BlueAirSensorDataEntry,
+  BlueAirStateEntry,
+  BlueAirStatusExtras,
+} from './Consts';
+import { getCapabilities } from './DeviceCapabilities';
+import { STATE_VALUE_TYPES } from './DeviceStateSchema';
+import { Logger, noopLogger, withContext } from './Logger';
+
+/**
+ * Maps raw sensor readings to named sensor data. Unknown sensors are skipped.
+ * @param entries - The `sensordata` entries of a device or event.
+ * @returns The sensor data.
+ */
+export function mapSensorData(
+  entries: BlueAirSensorDataEntry[],
+): BlueAirDeviceSensorData {
+  return entries.reduce((acc, sensor) => {
+    const key =
+      BlueAirDeviceSensorDataMap[
+        sensor.n as keyof typeof BlueAirDeviceSensorDataMap
+      ];
+    if (key) {
+      acc[key as keyof BlueAirDeviceSensorData] = sensor.v;
+    }
+    return acc;
+  }, {} as BlueAirDeviceSensorData);
+}
+
+/**
+ * Collects the time of each named sensor reading. Unknown sensors are skipped.
+ * @param entries - The `sensordata` entries of a device or event.
+ * @returns The reading times in epoch milliseconds, converted from the epoch seconds of the API.
+ */
+export function mapSensorTimestamps(
+  entries: BlueAirSensorDataEntry[],
+): BlueAirDeviceStatus['sensorUpdatedAt'] {
+  return entries.reduce(
+    (acc, sensor) => {
+      const key =
+        BlueAirDeviceSensorDataMap[
+          sensor.n as keyof typeof BlueAirDeviceSensorDataMap
+        ];
+      if (key && typeof sensor.t === 'number') {
+        acc[key as keyof BlueAirDeviceSensorData] = sensor.t * 1000;
+      }
+      return acc;
+    },
+    {} as BlueAirDeviceStatus['sensorUpdatedAt'],
+  );
+}
+
+/**
+ * Maps raw state entries to device state. States the client does not know are
+ * skipped; see mapExtras.
+ * @param entries - The `states` entries of a device or event.
+ * @param logger - Logger notified about states without a value.
+ * @returns The device state.
+ */
+export function mapStates(
+  entries: BlueAirStateEntry[],
+  logger: Logger = noopLogger,
+): BlueAirDeviceState {
+  const state: { [name: string]: number | boolean | string } = {};
+  for (const entry of entries) {
+    if (!(entry.n in STATE_VALUE_TYPES)) {
+      continue;
+    }
+    const value = stateValue(entry);
+    if (value === undefined) {
+      logger.debug('getDeviceStatus: state without value', { state: entry });
+    } else {
+      state[entry.n] = value;
+    }
+  }
+  return state as BlueAirDeviceState;
+}
+
+/**
+ * Collects the time of each known state.
+ * @param entries - The `states` entries of a device or event.
+ * @returns The times of the last change in epoch milliseconds, converted from the epoch seconds of the API.
+ */
+export function mapStateTimestamps(
+  entries: BlueAirStateEntry[],
+): BlueAirDeviceStatus['stateUpdatedAt'] {
+  const updatedAt: { [name: string]: number } = {};
+  for (const entry of entries) {
+    if (entry.n in STATE_VALUE_TYPES && typeof entry.t === 'number') {
+      updatedAt[entry.n] = entry.t * 1000;
+    }
+  }
+  return updatedAt;
+}
+
+/**
+ * Collects the sensors and states the client does not know, e.g. of newer models.
+ * @param sensordata - The `sensordata` entries of a device.
+ * @param states - The `states` entries of a device.
+ * @returns The unknown values by their raw names.
+ */
+export function mapExtras(
+  sensordata: BlueAirSensorDataEntry[],
+  states: BlueAirStateEntry[],
+): BlueAirStatusExtras {
+  const extras: BlueAirStatusExtras = { sensors: {}, states: {} };
+  for (const sensor of sensordata) {
+    if (!(sensor.n in BlueAirDeviceSensorDataMap)) {
+      extras.sensors[sensor.n] = sensor.v;
+    }
+  }
+  for (const state of states) {
+    const value = stateValue(state);
+    if (!(state.n in STATE_VALUE_TYPES) && value !== undefined) {
+      extras.states[state.n] = value;
+    }
+  }
+  return extras;
+}
+
+/**
+ * Maps a `deviceInfo` entry of the `/r/initial` response to a device status.
+ * @param device - The raw device info.
+ * @param logger - Logger notified about unexpected data.
+ * @param options - Set raw to keep the device info in the status, and the standard of the air quality index.
+ * @returns The device status.
+ */
+export function mapDeviceStatus(
+  device: BlueAirDeviceInfo,
+  logger: Logger = noopLogger,
+  options: { raw?: boolean; airQualityStandard?: AirQualityStandard } = {},
+): BlueAirDeviceStatus {
+  const sensorData = mapSensorData(device.sensordata);
+  const status = {
+    id: device.id,
+    name: device.configuration.di.name,
+    model: device.configuration._it,
+    mac: device.configuration.di.cma,
+    sku: device.configuration.di.sku,
+    mcu: device.configuration.di.mfv,
+    serial: device.configuration.di.ds,
+    wifi: device.configuration.di.ofv,
+    sensorData,
+    sensorUpdatedAt: mapSensorTimestamps(device.sensordata),
+    state: mapStates(device.states, withContext(logger, { uuid: device.id })),
+    stateUpdatedAt: mapStateTimestamps(device.states),
+    extras: mapExtras(device.sensordata, device.states),
+    capabilities: getCapabilities(device.configuration._it),
+    airQuality: summarizeAirQuality(sensorData, options.airQualityStandard),
+  };
+  return options.raw ? { ...status, raw: device } : status;
+}
+
+/**
+ * Checks whether a state has every expected value.
+ * @param state - The state reported by the device.
+ * @param expected - The values to look for.
+ * @returns True if all expected values match.
+ */
+export function matchesState(
+  state: BlueAirDeviceState,
+  expected: BlueAirDeviceState,
+): boolean {
+  return (Object.keys(expected) as (keyof BlueAirDeviceState)[]).every(
+    (key) => state[key] === expected[key],
+  );
+}
+
+/**
+ * Returns the value of a state entry, whichever of its value fields is set.
+ */
+function stateValue(
+  entry: BlueAirStateEntry,
+): number | boolean | string | undefined {
+  return entry.v ?? entry.vb ?? entry.vs;
+}
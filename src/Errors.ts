@@ -0,0 +1,204 @@
+import axios from 'axios';
+
+/**
+ * Options accepted by all BlueAir errors.
+ */
+export type BlueAirErrorOptions = {
+  // The underlying error, if any.
+  cause?: unknown;
+};
+
+/**
+ * Options accepted by BlueAirHttpError.
+ */
+export type BlueAirHttpErrorOptions = BlueAirErrorOptions & {
+  // Delay requested by the server in a Retry-After header, in milliseconds.
+  retryAfter?: number;
+};
+
+/**
+ * Base class for every error thrown by this library.
+ */
+export class BlueAirError extends Error {
+  public readonly cause?: unknown;
+
+  constructor(message: string, options: BlueAirErrorOptions = {}) {
+    super(message);
+    this.name = 'BlueAirError';
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Authentication failed, for example because of wrong credentials or a rejected token.
+ */
+export class BlueAirAuthError extends BlueAirError {
+  constructor(message: string, options: BlueAirErrorOptions = {}) {
+    super(message, options);
+    this.name = 'BlueAirAuthError';
+  }
+}
+
+/**
+ * The Gigya accounts API returned an error response.
+ * See https://help.sap.com/docs/SAP_CUSTOMER_DATA_CLOUD for the error codes,
+ * e.g. 403042 for invalid credentials.
+ */
+export class BlueAirGigyaError extends BlueAirAuthError {
+  constructor(
+    message: string,
+    public readonly errorCode: number,
+    public readonly errorDetails?: string,
+    options: BlueAirErrorOptions = {},
+  ) {
+    super(message, options);
+    this.name = 'BlueAirGigyaError';
+  }
+}
+
+/**
+ * An HTTP request completed with an unexpected status code.
+ */
+export class BlueAirHttpError extends BlueAirError {
+  public readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body?: unknown,
+    options: BlueAirHttpErrorOptions = {},
+  ) {
+    super(message, options);
+    this.name = 'BlueAirHttpError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * An HTTP request did not complete in time.
+ */
+export class BlueAirTimeoutError extends BlueAirError {
+  constructor(message: string, options: BlueAirErrorOptions = {}) {
+    super(message, options);
+    this.name = 'BlueAirTimeoutError';
+  }
+}
+
+/**
+ * The arguments passed to a method are missing or invalid.
+ */
+export class BlueAirValidationError extends BlueAirError {
+  constructor(message: string, options: BlueAirErrorOptions = {}) {
+    super(message, options);
+    this.name = 'BlueAirValidationError';
+  }
+}
+
+/**
+ * The region or API endpoint of the account could not be determined.
+ */
+export class BlueAirRegionError extends BlueAirError {
+  constructor(message: string, options: BlueAirErrorOptions = {}) {
+    super(message, options);
+    this.name = 'BlueAirRegionError';
+  }
+}
+
+/**
+ * A device did not reach the requested state in time after a command was accepted.
+ */
+export class BlueAirConfirmationError extends BlueAirError {
+  constructor(
+    message: string,
+    public readonly uuid: string,
+    public readonly expected: { [state: string]: unknown },
+    public readonly actual?: { [state: string]: unknown },
+    options: BlueAirErrorOptions = {},
+  ) {
+    super(message, options);
+    this.name = 'BlueAirConfirmationError';
+  }
+}
+
+/**
+ * Converts an error thrown by a request into a BlueAirError.
+ * BlueAirErrors are returned unchanged.
+ * @param error - The error thrown by axios or by response handling.
+ * @param description - Short description of the request, used in the message.
+ * @returns The corresponding BlueAirError, with the original error as cause.
+ */
+export function toBlueAirError(
+  error: unknown,
+  description: string,
+): BlueAirError {
+  if (error instanceof BlueAirError) {
+    return error;
+  }
+
+  // Cancelled axios requests and aborted fetch requests; transports abort on timeout
+  if (
+    axios.isCancel(error) ||
+    hasErrorName(error, ['AbortError', 'TimeoutError'])
+  ) {
+    return new BlueAirTimeoutError(`${description} timed out`, {
+      cause: error,
+    });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return new BlueAirHttpError(
+        `${description} failed with status ${error.response.status}`,
+        error.response.status,
+        error.response.data,
+        {
+          cause: error,
+          retryAfter: parseRetryAfter(error.response.headers?.['retry-after']),
+        },
+      );
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new BlueAirTimeoutError(`${description} timed out`, {
+        cause: error,
+      });
+    }
+  }
+
+  return new BlueAirError(`${description} failed: ${error}`, {
+    cause: error,
+  });
+}
+
+/**
+ * Checks the name of an error. Unlike instanceof, this also recognizes errors
+ * created in another realm, such as the DOMException and TypeError of fetch.
+ * @param error - The error to check.
+ * @param names - The accepted names.
+ * @returns True if the error has one of the names.
+ */
+export function hasErrorName(error: unknown, names: string[]): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    names.includes((error as { name?: unknown }).name as string)
+  );
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
+ * @param value - The header value.
+ * @returns The delay in milliseconds, or undefined if absent or unparsable.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,294 @@
+import { EventEmitter } from 'events';
+import { BlueAirDeviceStatus, defaultDeviceConfig } from './Consts';
+import { DevicePoller } from './DevicePoller';
+import { Logger, noopLogger } from './Logger';
+
+const DAY = 24 * 3600 * 1000;
+
+/**
+ * An observed filter usage, in percent.
+ */
+export type FilterSample = {
+  // Time of the observation, in epoch milliseconds.
+  timestamp: number;
+  usage: number;
+};
+
+/**
+ * What the tracker knows about the filter of a device.
+ */
+export type FilterStatus = {
+  uuid: string;
+  // The latest usage, in percent.
+  usage: number;
+  // The usage at which the filter should be changed.
+  threshold: number;
+  // True once the usage reached the threshold.
+  due: boolean;
+  // Observed consumption in percent per day, or null until it can be estimated.
+  ratePerDay: number | null;
+  // Days until the threshold is reached at the observed rate; 0 when due.
+  daysRemaining: number | null;
+  // Estimated time the threshold is reached, in epoch milliseconds.
+  dueAt: number | null;
+  // Time of the last filter replacement, if one was recorded.
+  lastReset: number | null;
+};
+
+/**
+ * Serializable state of a tracker, to keep the history across restarts.
+ */
+export type FilterTrackerState = {
+  [uuid: string]: {
+    samples: FilterSample[];
+    lastReset: number | null;
+    // Time of the latest read, which is later than the latest sample while the
+    // usage is unchanged.
+    observedAt?: number;
+  };
+};
+
+export type FilterTrackerOptions = {
+  // Usage in percent at which a filter change is due. Defaults to defaultDeviceConfig.filterChangeLevel.
+  threshold?: number;
+  // Thresholds of single devices, by uuid.
+  thresholds?: { [uuid: string]: number };
+  // A drop in usage of at least this many percent is taken as a filter replacement. Defaults to 20.
+  resetDrop?: number;
+  // Samples kept per device; the oldest are dropped first. Defaults to 1000.
+  maxSamples?: number;
+  // History to resume from, as returned by exportState().
+  state?: FilterTrackerState;
+};
+
+export type FilterTrackerEvents = {
+  // The usage of a filter reached its threshold. Emitted once per filter.
+  filterChangeDue: {
+    uuid: string;
+    usage: number;
+    threshold: number;
+    timestamp: number;
+  };
+  // A filter replacement was recorded or detected, and the history starts over.
+  filterReset: {
+    uuid: string;
+    previousUsage: number | null;
+    timestamp: number;
+  };
+};
+
+export interface FilterTracker {
+  on<K extends keyof FilterTrackerEvents>(
+    event: K,
+    listener: (payload: FilterTrackerEvents[K]) => void,
+  ): this;
+  once<K extends keyof FilterTrackerEvents>(
+    event: K,
+    listener: (payload: FilterTrackerEvents[K]) => void,
+  ): this;
+  off<K extends keyof FilterTrackerEvents>(
+    event: K,
+    listener: (payload: FilterTrackerEvents[K]) => void,
+  ): this;
+  emit<K extends keyof FilterTrackerEvents>(
+    event: K,
+    payload: FilterTrackerEvents[K],
+  ): boolean;
+}
+
+/**
+ * Follows the `filterusage` state of devices over time, announces when a filter
+ * reaches its change threshold and estimates when it will.
+ */
+export class FilterTracker extends EventEmitter {
+  private filters = new Map<string, FilterTrackerState[string]>();
+  private readonly threshold: number;
+  private readonly resetDrop: number;
+  private readonly maxSamples: number;
+
+  /**
+   * @param options - Thresholds, reset detection and the history to resume from.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    private readonly options: FilterTrackerOptions = {},
+    private readonly logger: Logger = noopLogger,
+  ) {
+    super();
+    this.threshold = options.threshold ?? defaultDeviceConfig.filterChangeLevel;
+    this.resetDrop = options.resetDrop ?? 20;
+    this.maxSamples = Math.max(2, options.maxSamples ?? 1000);
+    for (const [uuid, filter] of Object.entries(options.state ?? {})) {
+      this.filters.set(uuid, {
+        samples: filter.samples.map((sample) => ({ ...sample })),
+        lastReset: filter.lastReset,
+        observedAt: filter.observedAt,
+      });
+    }
+  }
+
+  /**
+   * Records the filter usage of a status read.
+   * @param statuses - The result of getDeviceStatus.
+   * @param timestamp - Time of the read, in epoch milliseconds.
+   */
+  public record(statuses: BlueAirDeviceStatus[], timestamp = Date.now()): void {
+    for (const status of statuses) {
+      if (typeof status.state.filterusage === 'number') {
+        this.addSample(status.id, status.state.filterusage, timestamp);
+      }
+    }
+  }
+
+  /**
+   * Records every poll of a poller until the returned function is called.
+   * @param poller - The poller.
+   * @returns {() => void} - A function that stops recording.
+   */
+  public track(poller: DevicePoller): () => void {
+    const listener = ({
+      statuses,
+      timestamp,
+    }: {
+      statuses: BlueAirDeviceStatus[];
+      timestamp: number;
+    }) => this.record(statuses, timestamp);
+    poller.on('poll', listener);
+    return () => {
+      poller.off('poll', listener);
+    };
+  }
+
+  /**
+   * Records a filter replacement, so the history of the device starts over.
+   * @param uuid - The device uuid.
+   * @param timestamp - Time of the replacement, in epoch milliseconds.
+   */
+  public recordReset(uuid: string, timestamp = Date.now()): void {
+    const filter = this.filters.get(uuid);
+    const previous = filter?.samples[filter.samples.length - 1];
+    this.filters.set(uuid, { samples: [], lastReset: timestamp });
+
+    this.logger.info('Filter replaced', { uuid });
+    this.emit('filterReset', {
+      uuid,
+      previousUsage: previous?.usage ?? null,
+      timestamp,
+    });
+  }
+
+  /**
+   * Returns what is known about the filter of a device.
+   * @param uuid - The device uuid.
+   * @param now - The time to estimate from, in epoch milliseconds.
+   * @returns {FilterStatus | undefined} - The filter status, or undefined before the first sample.
+   */
+  public getStatus(uuid: string, now = Date.now()): FilterStatus | undefined {
+    const filter = this.filters.get(uuid);
+    const latest = filter?.samples[filter.samples.length - 1];
+    if (!filter || !latest) {
+      return undefined;
+    }
+
+    const threshold = this.getThreshold(uuid);
+    const due = latest.usage >= threshold;
+    const observedAt = filter.observedAt ?? latest.timestamp;
+    const ratePerDay = estimateRate(filter.samples, observedAt);
+    let dueAt: number | null = null;
+    if (due) {
+      dueAt = latest.timestamp;
+    } else if (ratePerDay !== null) {
+      dueAt = observedAt + ((threshold - latest.usage) / ratePerDay) * DAY;
+    }
+
+    return {
+      uuid,
+      usage: latest.usage,
+      threshold,
+      due,
+      ratePerDay,
+      daysRemaining: dueAt === null ? null : Math.max(0, (dueAt - now) / DAY),
+      dueAt,
+      lastReset: filter.lastReset,
+    };
+  }
+
+  /**
+   * Returns the samples of a device since the last replacement, oldest first.
+   * @param uuid - The device uuid.
+   * @returns {FilterSample[]} - The samples.
+   */
+  public getSamples(uuid: string): FilterSample[] {
+    return (this.filters.get(uuid)?.samples ?? []).map((sample) => ({
+      ...sample,
+    }));
+  }
+
+  /**
+   * Returns the history of all devices, to pass as the state option after a restart.
+   * @returns {FilterTrackerState} - The serializable state.
+   */
+  public exportState(): FilterTrackerState {
+    const state: FilterTrackerState = {};
+    for (const [uuid, filter] of this.filters) {
+      state[uuid] = {
+        samples: this.getSamples(uuid),
+        lastReset: filter.lastReset,
+        observedAt: filter.observedAt,
+      };
+    }
+    return state;
+  }
+
+  private getThreshold(uuid: string): number {
+    return this.options.thresholds?.[uuid] ?? this.threshold;
+  }
+
+  private addSample(uuid: string, usage: number, timestamp: number): void {
+    const filter = this.filters.get(uuid) ?? { samples: [], lastReset: null };
+    const previous = filter.samples[filter.samples.length - 1];
+
+    if (previous && previous.usage - usage >= this.resetDrop) {
+      this.recordReset(uuid, timestamp);
+      this.addSample(uuid, usage, timestamp);
+      return;
+    }
+    // Unchanged usage adds no sample, but the time it stayed unchanged counts
+    filter.observedAt = Math.max(filter.observedAt ?? timestamp, timestamp);
+    if (previous && previous.usage === usage) {
+      return;
+    }
+
+    filter.samples.push({ timestamp, usage });
+    if (filter.samples.length > this.maxSamples) {
+      filter.samples.shift();
+    }
+    this.filters.set(uuid, filter);
+
+    const threshold = this.getThreshold(uuid);
+    if (usage >= threshold && (!previous || previous.usage < threshold)) {
+      this.logger.info('Filter change due', { uuid, usage, threshold });
+      this.emit('filterChangeDue', { uuid, usage, threshold, timestamp });
+    }
+  }
+}
+
+/**
+ * Estimates the consumption from the first sample to the latest read.
+ * @param samples - The samples since the last replacement, oldest first.
+ * @param observedAt - Time of the latest read, in epoch milliseconds.
+ * @returns The usage in percent per day, or null if it cannot be estimated.
+ */
+function estimateRate(
+  samples: FilterSample[],
+  observedAt: number,
+): number | null {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  if (!first || !last || observedAt <= first.timestamp) {
+    return null;
+  }
+  const rate =
+    ((last.usage - first.usage) / (observedAt - first.timestamp)) * DAY;
+  return rate > 0 ? rate : null;
+}
@@ -1,5 +1,32 @@
-import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
-import { BLUEAIR_CONFIG, Region, RegionMap } from "./Consts";
+import {
+	BLUEAIR_API_TIMEOUT,
+	BLUEAIR_CONFIG,
+	Region,
+	RegionMap,
+} from "./Consts";
+import {
+	BlueAirAuthError,
+	BlueAirGigyaError,
+	BlueAirHttpError,
+	BlueAirRegionError,
+	parseRetryAfter,
+	toBlueAirError,
+} from "./Errors";
+import { createAxiosTransport, HttpTransport } from "./HttpTransport";
+import { Logger, noopLogger } from "./Logger";
+import { defaultRetryPolicy, RetryPolicy, withRetry } from "./RetryPolicy";
+
+/**
+ * Optional settings for GigyaApi.
+ */
+export type GigyaApiOptions = {
+	// Overrides the regional Gigya base URL.
+	baseUrl?: string;
+	// Sends the requests. Defaults to the global axios.
+	http?: HttpTransport;
+	// Time allowed per request, in milliseconds.
+	timeout?: number;
+};
 
 /**
  * Gigya API client for handling authentication.
@@ -7,29 +34,41 @@ import { BLUEAIR_CONFIG, Region, RegionMap } from "./Consts";
 export default class GigyaApi {
 	private api_key: string;
 	private gigyaApiUrl: string;
+	private http: HttpTransport;
+	private timeout: number;
 
 	/**
 	 * Constructs a new GigyaApi instance.
 	 * @param username - The username for authentication.
 	 * @param password - The password for authentication.
 	 * @param region - The region code.
+	 * @param retryPolicy - How failed requests are retried.
+	 * @param logger - Logger for diagnostics; it must redact credentials itself.
+	 * @param options - Base URL, transport and timeout settings.
 	 */
 	constructor(
 		private readonly username: string,
 		private readonly password: string,
-		region: Region
+		public readonly region: Region,
+		private readonly retryPolicy: RetryPolicy = defaultRetryPolicy,
+		private readonly logger: Logger = noopLogger,
+		options: GigyaApiOptions = {}
 	) {
-		const config = BLUEAIR_CONFIG[RegionMap[region]].gigyaConfig;
+		const config = BLUEAIR_CONFIG[RegionMap[region]]?.gigyaConfig;
 		if (!config) {
-			throw new Error(`No config found for region: ${region}`);
+			throw new BlueAirRegionError(`No config found for region: ${region}`);
 		}
 		this.api_key = config.apiKey;
-		this.gigyaApiUrl = `https://accounts.${config.gigyaRegion}.gigya.com`;
+		this.gigyaApiUrl =
+			options.baseUrl ?? `https://accounts.${config.gigyaRegion}.gigya.com`;
+		this.http = options.http ?? createAxiosTransport();
+		this.timeout = options.timeout ?? BLUEAIR_API_TIMEOUT;
 	}
 
 	/**
 	 * Retrieves the Gigya session.
 	 * @returns A promise that resolves to the session token and secret.
+	 * @throws BlueAirGigyaError if Gigya rejects the login, e.g. because of wrong credentials.
 	 */
 	public async getGigyaSession(): Promise<{ token: string; secret: string }> {
 		const params = new URLSearchParams({
@@ -42,14 +81,14 @@ export default class GigyaApi {
 		const response = await this.apiCall("/accounts.login", params.toString());
 
 		if (!response.sessionInfo) {
-			throw new Error(
+			throw new BlueAirAuthError(
 				`Gigya session error: sessionInfo in response: ${JSON.stringify(
 					response
 				)}`
 			);
 		}
 
-		console.debug("Gigya session received");
+		this.logger.debug("Gigya session received");
 		return {
 			token: response.sessionInfo.sessionToken,
 			secret: response.sessionInfo.sessionSecret,
@@ -61,6 +100,7 @@ export default class GigyaApi {
 	 * @param token - The session token.
 	 * @param secret - The session secret.
 	 * @returns A promise that resolves to the JWT.
+	 * @throws BlueAirGigyaError if Gigya rejects the session.
 	 */
 	public async getGigyaJWT(
 		token: string,
@@ -75,52 +115,88 @@ export default class GigyaApi {
 		const response = await this.apiCall("/accounts.getJWT", params.toString());
 
 		if (!response.id_token) {
-			throw new Error(
+			throw new BlueAirAuthError(
 				`Gigya JWT error: no id_token in response: ${JSON.stringify(response)}`
 			);
 		}
 
-		console.debug("Gigya JWT received");
+		this.logger.debug("Gigya JWT received");
 		return {
 			jwt: response.id_token,
 		};
 	}
 
-	private async apiCall(url: string, data: string, retries = 3): Promise<any> {
-		const controller = new AbortController();
-		try {
-			const axiosConfig: AxiosRequestConfig = {
-				url: `${this.gigyaApiUrl}${url}?${data}`,
-				method: "POST",
-				headers: {
-					"Content-Type": "application/x-www-form-urlencoded",
-					Accept: "*/*",
-					Connection: "keep-alive",
-					"Accept-Encoding": "gzip, deflate, br",
-				},
-				signal: controller.signal,
-				timeout: 10000, // Timeout for the request
-			};
+	/**
+	 * Calls the Gigya accounts API, retrying transport failures according to the retry policy.
+	 * Error responses from Gigya itself are definitive and are not retried.
+	 * @param url - The API method path.
+	 * @param data - The url-encoded parameters.
+	 * @returns The response JSON.
+	 */
+	private async apiCall(url: string, data: string): Promise<any> {
+		return withRetry(
+			async (attempt) => {
+				try {
+					return await this.send(url, data);
+				} catch (error) {
+					this.logger.error("Gigya API call failed", {
+						endpoint: url,
+						attempt,
+						error,
+					});
+					throw toBlueAirError(error, `Gigya API call ${url}`);
+				}
+			},
+			this.retryPolicy,
+			(error, attempt, delay) => {
+				this.logger.warn("Gigya API call failed, retrying", {
+					endpoint: url,
+					attempt,
+					delay,
+				});
+			}
+		);
+	}
+
+	/**
+	 * Sends a single request to the Gigya accounts API.
+	 * @param url - The API method path.
+	 * @param data - The url-encoded parameters.
+	 * @returns The response JSON.
+	 */
+	private async send(url: string, data: string): Promise<any> {
+		const response = await this.http({
+			url: `${this.gigyaApiUrl}${url}?${data}`,
+			method: "POST",
+			headers: {
+				"Content-Type": "application/x-www-form-urlencoded",
+				Accept: "*/*",
+				Connection: "keep-alive",
+				"Accept-Encoding": "gzip, deflate, br",
+			},
+			timeout: this.timeout,
+		});
+		const json = response.data;
 
-			const response: AxiosResponse<any> = await axios(axiosConfig);
-			const json = response.data;
+		if (response.status !== 200) {
+			throw new BlueAirHttpError(
+				`Gigya API call error with status ${response.status}: ${
+					response.statusText
+				}, ${JSON.stringify(json)}`,
+				response.status,
+				json,
+				{ retryAfter: parseRetryAfter(response.headers["retry-after"]) }
+			);
+		}
 
-			if (response.status !== 200) {
-				throw new Error(
-					`API call error with status ${response.status}: ${
-						response.statusText
-					}, ${JSON.stringify(json)}`
-				);
-			}
-			return json;
-		} catch (error) {
-			console.error(`API call failed: ${error}`);
-			if (retries > 0) {
-				console.debug(`Retrying API call (${retries} retries left)...`);
-				return this.apiCall(url, data, retries - 1);
-			} else {
-				throw new Error(`API call failed after ${retries} retries`);
-			}
+		// Gigya reports failures with HTTP 200 and a non-zero errorCode
+		if (json && json.errorCode) {
+			throw new BlueAirGigyaError(
+				`Gigya ${url} error ${json.errorCode}: ${json.errorMessage}`,
+				json.errorCode,
+				json.errorDetails
+			);
 		}
+		return json;
 	}
 }
@@ -0,0 +1,656 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { timingSafeEqual } from 'crypto';
+import type { ApplyStateResult, BlueAirAwsClient } from './BlueAirAwsClient';
+import { BlueAirDeviceSensorData, BlueAirDeviceStatus } from './Consts';
+import {
+  STATE_SCHEMA,
+  STATE_VALUE_TYPES,
+  validateStateChanges,
+  WritableDeviceState,
+} from './DeviceStateSchema';
+import {
+  DevicePoller,
+  DevicePollerOptions,
+  SensorDataEvent,
+  StateChangedEvent,
+} from './DevicePoller';
+import {
+  BlueAirTimeoutError,
+  BlueAirValidationError,
+  toBlueAirError,
+} from './Errors';
+import { Logger, noopLogger } from './Logger';
+
+/**
+ * What the gateway needs from the client.
+ */
+export type HttpGatewaySource = Pick<
+  BlueAirAwsClient,
+  | 'getDevices'
+  | 'getAccountUuid'
+  | 'getDeviceStatus'
+  | 'getCapabilities'
+  | 'applyState'
+  | 'subscribe'
+>;
+
+export type HttpGatewayOptions = {
+  // Bearer token required on every request. Without one, requests are not authenticated.
+  token?: string;
+  // Settings of the subscription feeding the event stream.
+  subscription?: DevicePollerOptions;
+  // Largest accepted request body, in bytes. Defaults to 16 KiB.
+  maxBodySize?: number;
+};
+
+// Description of each sensor reading in the OpenAPI document
+const SENSOR_DESCRIPTIONS: {
+  [sensor in keyof Required<BlueAirDeviceSensorData>]: string;
+} = {
+  fanspeed: 'Fan speed in percent',
+  hcho: 'Formaldehyde in ppb',
+  humidity: 'Relative humidity in percent',
+  pm1: 'PM1 in µg/m³',
+  pm10: 'PM10 in µg/m³',
+  pm2_5: 'PM2.5 in µg/m³',
+  temperature: 'Temperature in °C',
+  voc: 'Volatile organic compounds in ppb',
+};
+
+/**
+ * Error answered with an HTTP status.
+ */
+class GatewayError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Small HTTP API over a client, for services that cannot use the library directly:
+ *
+ * - `GET /devices`: the status of every device
+ * - `GET /devices/:uuid`: the status of one device
+ * - `PATCH /devices/:uuid/state`: writes a JSON object of states with applyState
+ * - `GET /events`: a Server-Sent Events stream of `stateChanged` and `sensorData` events
+ * - `GET /openapi.json`: the OpenAPI description of the above
+ */
+export class HttpGateway {
+  private server: http.Server | null = null;
+  private loading: Promise<void> | null = null;
+  private accountuuid = '';
+  private uuids: string[] = [];
+  private subscription: Promise<DevicePoller> | null = null;
+  private streams = new Set<http.ServerResponse>();
+  // Streams waiting for the subscription, which must stay open for them.
+  private openingStreams = 0;
+
+  /**
+   * @param client - The initialized client.
+   * @param options - Authentication and event stream settings.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    private readonly client: HttpGatewaySource,
+    private readonly options: HttpGatewayOptions = {},
+    private readonly logger: Logger = noopLogger,
+  ) {}
+
+  /**
+   * The base URL of the running server.
+   */
+  public get url(): string {
+    if (!this.server) {
+      throw new Error('HttpGateway is not started');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Request listener serving the API, to mount in an existing server.
+   */
+  public readonly handler: http.RequestListener = (req, res) => {
+    void this.handle(req, res);
+  };
+
+  /**
+   * Loads the device list and starts listening.
+   * @param port - The port, a random free port by default.
+   * @param host - The interface, the loopback interface by default.
+   */
+  public async start(port = 0, host = '127.0.0.1'): Promise<void> {
+    await this.ready();
+    const server = http.createServer(this.handler);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+  }
+
+  /**
+   * Ends the event streams and stops the server.
+   */
+  public async stop(): Promise<void> {
+    for (const stream of this.streams) {
+      stream.end();
+    }
+    this.streams.clear();
+    this.closeSubscription();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+
+  /**
+   * Reloads the devices of the account, e.g. after one was added.
+   */
+  public async refreshDevices(): Promise<void> {
+    const devices = await this.client.getDevices();
+    this.accountuuid =
+      devices.length > 0
+        ? await this.client.getAccountUuid(devices[0].uuid)
+        : '';
+    this.uuids = devices.map((device) => device.uuid);
+  }
+
+  /**
+   * Builds the OpenAPI description of the gateway from the state schema.
+   * @returns {object} - The OpenAPI 3.0 document.
+   */
+  public getOpenApi(): object {
+    const state = {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(STATE_VALUE_TYPES).map(([field, valueType]) => [
+          field,
+          { type: valueType },
+        ]),
+      ),
+    };
+    const stateChanges = {
+      type: 'object',
+      additionalProperties: false,
+      minProperties: 1,
+      properties: Object.fromEntries(
+        Object.entries(STATE_SCHEMA).map(([field, schema]) => [
+          field,
+          schema.type === 'number'
+            ? {
+                type: 'number',
+                minimum: schema.min,
+                maximum: schema.max,
+                description: schema.description,
+              }
+            : { type: 'boolean', description: schema.description },
+        ]),
+      ),
+    };
+    const sensorData = {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(SENSOR_DESCRIPTIONS).map(([field, description]) => [
+          field,
+          { type: 'number', description },
+        ]),
+      ),
+    };
+    const error = {
+      type: 'object',
+      properties: { error: { type: 'string' }, message: { type: 'string' } },
+    };
+    const json = (ref: string) => ({
+      content: { 'application/json': { schema: { $ref: ref } } },
+    });
+    const errors = {
+      400: {
+        description: 'Invalid request',
+        ...json('#/components/schemas/Error'),
+      },
+      401: {
+        description: 'Missing or wrong token',
+        ...json('#/components/schemas/Error'),
+      },
+      404: {
+        description: 'Unknown device',
+        ...json('#/components/schemas/Error'),
+      },
+      502: {
+        description: 'BlueAir API failed',
+        ...json('#/components/schemas/Error'),
+      },
+      504: {
+        description: 'BlueAir API timed out',
+        ...json('#/components/schemas/Error'),
+      },
+    };
+    const uuid = {
+      name: 'uuid',
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    };
+
+    return {
+      openapi: '3.0.3',
+      info: { title: 'BlueAir gateway', version: '1.0.0' },
+      ...(this.options.token && {
+        security: [{ bearer: [] }],
+      }),
+      paths: {
+        '/devices': {
+          get: {
+            summary: 'Status of every device',
+            responses: {
+              200: {
+                description: 'The devices',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/DeviceStatus' },
+                    },
+                  },
+                },
+              },
+              401: errors[401],
+              502: errors[502],
+              504: errors[504],
+            },
+          },
+        },
+        '/devices/{uuid}': {
+          get: {
+            summary: 'Status of a device',
+            parameters: [uuid],
+            responses: {
+              200: {
+                description: 'The device',
+                ...json('#/components/schemas/DeviceStatus'),
+              },
+              401: errors[401],
+              404: errors[404],
+              502: errors[502],
+              504: errors[504],
+            },
+          },
+        },
+        '/devices/{uuid}/state': {
+          patch: {
+            summary: 'Set states of a device',
+            parameters: [uuid],
+            requestBody: {
+              required: true,
+              ...json('#/components/schemas/StateChanges'),
+            },
+            responses: {
+              200: {
+                description: 'Every state was written',
+                ...json('#/components/schemas/ApplyStateResult'),
+              },
+              ...errors,
+            },
+          },
+        },
+        '/events': {
+          get: {
+            summary:
+              'Server-Sent Events stream of stateChanged and sensorData events',
+            responses: {
+              200: {
+                description: 'The event stream',
+                content: {
+                  'text/event-stream': { schema: { type: 'string' } },
+                },
+              },
+              401: errors[401],
+            },
+          },
+        },
+      },
+      components: {
+        ...(this.options.token && {
+          securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+        }),
+        schemas: {
+          DeviceState: state,
+          SensorData: sensorData,
+          StateChanges: stateChanges,
+          DeviceStatus: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              model: { type: 'string' },
+              mac: { type: 'string' },
+              wifi: { type: 'string' },
+              mcu: { type: 'string' },
+              serial: { type: 'string' },
+              state: { $ref: '#/components/schemas/DeviceState' },
+              sensorData: { $ref: '#/components/schemas/SensorData' },
+              sensorUpdatedAt: {
+                type: 'object',
+                additionalProperties: { type: 'number' },
+              },
+              stateUpdatedAt: {
+                type: 'object',
+                additionalProperties: { type: 'number' },
+              },
+              extras: {
+                type: 'object',
+                properties: {
+                  sensors: { type: 'object' },
+                  states: { type: 'object' },
+                },
+              },
+              capabilities: { type: 'object' },
+              airQuality: {
+                type: 'object',
+                properties: {
+                  standard: {
+                    type: 'string',
+                    enum: ['us-epa', 'eu-caqi', 'china'],
+                  },
+                  index: { type: 'number' },
+                  category: { type: 'string' },
+                  dominant: { type: 'string', enum: ['pm2_5', 'pm10'] },
+                  voc: { $ref: '#/components/schemas/AirQualityBand' },
+                  hcho: { $ref: '#/components/schemas/AirQualityBand' },
+                },
+              },
+            },
+          },
+          AirQualityBand: {
+            type: 'object',
+            properties: {
+              level: { type: 'number' },
+              label: { type: 'string' },
+            },
+          },
+          ApplyStateResult: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              applied: { $ref: '#/components/schemas/StateChanges' },
+              failed: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: { type: 'string' },
+                    value: {},
+                    error: { type: 'string' },
+                  },
+                },
+              },
+              skipped: { type: 'array', items: { type: 'string' } },
+              rolledBack: { $ref: '#/components/schemas/StateChanges' },
+            },
+          },
+          Error: error,
+        },
+      },
+    };
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = (req.url ?? '/').split('?')[0];
+
+    try {
+      if (!this.isAuthorized(req)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        throw new GatewayError(401, 'Missing or wrong bearer token');
+      }
+      await this.ready();
+
+      const device = /^\/devices\/([^/]+)(\/state)?$/.exec(path);
+      if (path === '/openapi.json' && method === 'GET') {
+        send(res, 200, this.getOpenApi());
+      } else if (path === '/devices' && method === 'GET') {
+        send(res, 200, await this.readStatus(this.uuids));
+      } else if (device && !device[2] && method === 'GET') {
+        const [status] = await this.readStatus([this.findDevice(device[1])]);
+        send(res, 200, status);
+      } else if (device && device[2] && method === 'PATCH') {
+        const uuid = this.findDevice(device[1]);
+        const result = await this.writeState(uuid, await this.readJson(req));
+        send(res, result.success ? 200 : 502, serializeResult(result));
+      } else if (path === '/events' && method === 'GET') {
+        await this.openStream(req, res);
+      } else {
+        throw new GatewayError(404, `No route for ${method} ${path}`);
+      }
+    } catch (error) {
+      this.sendError(res, error, method, path);
+    }
+  }
+
+  /**
+   * Loads the device list once; a failed load is retried by the next request.
+   */
+  private ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.refreshDevices().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    if (!this.options.token) {
+      return true;
+    }
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    const actual = Buffer.from(req.headers.authorization ?? '');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  private findDevice(uuid: string): string {
+    if (!this.uuids.includes(uuid)) {
+      throw new GatewayError(404, `Unknown device ${uuid}`);
+    }
+    return uuid;
+  }
+
+  private readStatus(uuids: string[]): Promise<BlueAirDeviceStatus[]> {
+    return uuids.length > 0
+      ? this.client.getDeviceStatus(this.accountuuid, uuids)
+      : Promise.resolve([]);
+  }
+
+  private async writeState(
+    uuid: string,
+    body: unknown,
+  ): Promise<ApplyStateResult> {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new BlueAirValidationError('Expected a JSON object of states');
+    }
+    const changes = body as Partial<WritableDeviceState>;
+    validateStateChanges(changes, this.client.getCapabilities(uuid));
+    return this.client.applyState(uuid, changes);
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    const limit = this.options.maxBodySize ?? 16 * 1024;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > limit) {
+        throw new GatewayError(413, `Request body exceeds ${limit} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch (error) {
+      throw new BlueAirValidationError('Request body is not valid JSON');
+    }
+  }
+
+  /**
+   * Streams subscription events to a client until it disconnects. The subscription
+   * is opened for the first stream and closed with the last one.
+   */
+  private async openStream(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    this.openingStreams++;
+    req.on('close', () => {
+      if (this.streams.delete(res)) {
+        this.releaseSubscription();
+      }
+    });
+    try {
+      await this.openSubscription();
+    } finally {
+      this.openingStreams--;
+    }
+
+    // The client may have disconnected while the subscription was opening.
+    if (req.destroyed || res.writableEnded) {
+      this.releaseSubscription();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    this.streams.add(res);
+  }
+
+  /**
+   * Opens the subscription once, however many streams wait for it.
+   */
+  private openSubscription(): Promise<DevicePoller> {
+    if (!this.subscription) {
+      this.subscription = this.client
+        .subscribe(
+          this.accountuuid,
+          this.uuids,
+          undefined,
+          this.options.subscription,
+        )
+        .then(
+          (subscription) => {
+            subscription.on('stateChanged', (event) => this.broadcast(event));
+            subscription.on('sensorData', (event) => this.broadcast(event));
+            subscription.on('error', ({ error }) =>
+              this.logger.warn('Event stream update failed', { error }),
+            );
+            return subscription;
+          },
+          (error) => {
+            this.subscription = null;
+            throw error;
+          },
+        );
+    }
+    return this.subscription;
+  }
+
+  /**
+   * Closes the subscription once no stream uses or waits for it.
+   */
+  private releaseSubscription(): void {
+    if (this.streams.size === 0 && this.openingStreams === 0) {
+      this.closeSubscription();
+    }
+  }
+
+  private broadcast(event: StateChangedEvent | SensorDataEvent): void {
+    const message = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const stream of this.streams) {
+      stream.write(message);
+    }
+  }
+
+  private closeSubscription(): void {
+    const subscription = this.subscription;
+    this.subscription = null;
+    subscription?.then(
+      (subscription) => subscription.stop(),
+      () => undefined,
+    );
+  }
+
+  private sendError(
+    res: http.ServerResponse,
+    error: unknown,
+    method: string,
+    path: string,
+  ): void {
+    let status: number;
+    let wrapped: Error;
+    if (error instanceof GatewayError) {
+      status = error.status;
+      wrapped = error;
+    } else {
+      wrapped = toBlueAirError(error, `${method} ${path}`);
+      status =
+        wrapped instanceof BlueAirValidationError
+          ? 400
+          : wrapped instanceof BlueAirTimeoutError
+            ? 504
+            : 502;
+    }
+
+    if (status >= 500) {
+      this.logger.error('Gateway request failed', {
+        method,
+        path,
+        error: wrapped,
+      });
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    send(res, status, {
+      error: wrapped instanceof GatewayError ? 'GatewayError' : wrapped.name,
+      message: wrapped.message,
+    });
+  }
+}
+
+/**
+ * Converts the errors of an applyState result to their messages.
+ */
+function serializeResult(result: ApplyStateResult): object {
+  return {
+    ...result,
+    failed: result.failed.map(({ field, value, error }) => ({
+      field,
+      value,
+      error: error.message,
+    })),
+  };
+}
+
+function send(res: http.ServerResponse, status: number, body: object): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,173 @@
+import axios, { AxiosInstance } from 'axios';
+
+/**
+ * A request as issued by the client, independent of the HTTP library.
+ */
+export type HttpRequest = {
+  url: string;
+  method: string;
+  headers: { [name: string]: string };
+  // A string is sent as is, an object as JSON.
+  data?: string | object;
+  // Time allowed for the whole request, in milliseconds.
+  timeout: number;
+};
+
+/**
+ * A response of any status. Non-2xx statuses are not errors at this level.
+ */
+export type HttpResponse<T = any> = {
+  status: number;
+  statusText: string;
+  // Header names in lower case.
+  headers: { [name: string]: string };
+  // The JSON-decoded body, or the raw text if it is not JSON.
+  data: T;
+};
+
+/**
+ * Sends requests for the client. Rejects only when no response was received.
+ */
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Minimal shape of the fetch API, satisfied by the global fetch of Node 18+,
+ * undici and node-fetch.
+ */
+export type FetchLike = (
+  url: string,
+  init: {
+    method: string;
+    headers: { [name: string]: string };
+    body?: string;
+    signal: AbortSignal;
+  },
+) => Promise<{
+  status: number;
+  statusText: string;
+  headers: { forEach(callback: (value: string, name: string) => void): void };
+  text(): Promise<string>;
+}>;
+
+/**
+ * Creates a transport sending requests through axios.
+ * @param instance - The axios instance to use, e.g. one with a proxy or custom agents.
+ * Defaults to the global axios.
+ * @returns The transport.
+ */
+export function createAxiosTransport(
+  instance: AxiosInstance = axios,
+): HttpTransport {
+  return async (request) => {
+    // The axios timeout does not cover connecting, the abort signal does
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), request.timeout);
+    try {
+      const response = await instance.request({
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        data: request.data,
+        timeout: request.timeout,
+        signal: controller.signal,
+        validateStatus: () => true,
+      });
+
+      const headers: { [name: string]: string } = {};
+      for (const [name, value] of Object.entries(response.headers ?? {})) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = String(value);
+        }
+      }
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: response.data,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Creates a transport sending requests through a fetch-compatible function.
+ * Network failures reject with the TypeError raised by fetch, timeouts with an AbortError.
+ * @param fetch - The fetch function to use.
+ * @returns The transport.
+ */
+export function createFetchTransport(fetch: FetchLike): HttpTransport {
+  return async (request) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), request.timeout);
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body:
+          request.data === undefined || typeof request.data === 'string'
+            ? request.data
+            : JSON.stringify(request.data),
+        signal: controller.signal,
+      });
+
+      const headers: { [name: string]: string } = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        data: parseBody(await response.text()),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Turns the `http` client option into a transport.
+ * @param http - An axios instance or a fetch-compatible function. Defaults to the global axios.
+ * @returns The transport.
+ */
+export function resolveHttpTransport(
+  http?: AxiosInstance | FetchLike,
+): HttpTransport {
+  if (!http) {
+    return createAxiosTransport();
+  }
+  return isAxiosInstance(http)
+    ? createAxiosTransport(http)
+    : createFetchTransport(http);
+}
+
+/**
+ * Tells an axios instance from a fetch function; both are callable.
+ */
+function isAxiosInstance(
+  http: AxiosInstance | FetchLike,
+): http is AxiosInstance {
+  return (
+    typeof (http as AxiosInstance).request === 'function' &&
+    'defaults' in http
+  );
+}
+
+/**
+ * Decodes a body the way axios does: JSON if it parses, the text otherwise.
+ */
+function parseBody(text: string): unknown {
+  if (text === '') {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
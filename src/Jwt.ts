@@ -0,0 +1,32 @@
+/**
+ * Decodes the payload of a JWT without verifying its signature.
+ * @param token - The encoded JWT.
+ * @returns The decoded payload, or null if the token is not a JWT.
+ */
+export function decodeJwtPayload(
+  token: string,
+): { [claim: string]: unknown } | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(parts[1], 'base64url').toString('utf8'),
+    );
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Reads the `exp` claim of a JWT.
+ * @param token - The encoded JWT.
+ * @returns The expiry time in epoch milliseconds, or null if the token has no usable `exp` claim.
+ */
+export function getJwtExpiry(token: string): number | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' && isFinite(exp) ? exp * 1000 : null;
+}
@@ -0,0 +1,198 @@
+/**
+ * Structured fields attached to a log entry, e.g. region, device uuid, endpoint or attempt.
+ */
+export type LogContext = { [field: string]: unknown };
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Logger used by the client. Implementations receive context that has already been redacted.
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+/**
+ * Minimal shape of a pino (or bunyan) logger, which takes the fields first and the message second.
+ */
+export interface PinoLikeLogger {
+  debug(fields: object, message: string): void;
+  info(fields: object, message: string): void;
+  warn(fields: object, message: string): void;
+  error(fields: object, message: string): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are always credentials
+const SECRET_FIELD = /token|secret|password|passwd|authorization|jwt|cookie|credential|api[-_]?key/i;
+
+// Credentials embedded in free text: bearer/basic headers and JWTs
+const SECRET_TEXT = [
+  /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/g,
+  /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+];
+
+/**
+ * Logger that discards everything. This is the default.
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Creates a logger writing to the console.
+ * @param level - The lowest level that is written. Defaults to info.
+ * @param output - The console to write to.
+ * @returns The logger.
+ */
+export function createConsoleLogger(
+  level: LogLevel = 'info',
+  output: Pick<Console, LogLevel> = console,
+): Logger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const write =
+    (entryLevel: LogLevel) =>
+    (message: string, context?: LogContext): void => {
+      if (LOG_LEVELS.indexOf(entryLevel) < threshold) {
+        return;
+      }
+      if (context && Object.keys(context).length > 0) {
+        output[entryLevel](`[BlueAir] ${message}`, context);
+      } else {
+        output[entryLevel](`[BlueAir] ${message}`);
+      }
+    };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Adapts a pino-style logger, which takes the fields before the message.
+ * @param logger - The pino (or compatible) logger.
+ * @returns The logger.
+ */
+export function createPinoLogger(logger: PinoLikeLogger): Logger {
+  return {
+    debug: (message, context = {}) => logger.debug(context, message),
+    info: (message, context = {}) => logger.info(context, message),
+    warn: (message, context = {}) => logger.warn(context, message),
+    error: (message, context = {}) => logger.error(context, message),
+  };
+}
+
+/**
+ * Returns a logger that adds fixed fields to every entry.
+ * @param logger - The logger to write to.
+ * @param fields - The fields to add. Fields passed with an entry take precedence.
+ * @returns The logger.
+ */
+export function withContext(logger: Logger, fields: LogContext): Logger {
+  return {
+    debug: (message, context) => logger.debug(message, { ...fields, ...context }),
+    info: (message, context) => logger.info(message, { ...fields, ...context }),
+    warn: (message, context) => logger.warn(message, { ...fields, ...context }),
+    error: (message, context) => logger.error(message, { ...fields, ...context }),
+  };
+}
+
+/**
+ * Returns a logger that redacts tokens, passwords and Authorization headers
+ * from both the message and the context before passing them on.
+ * @param logger - The logger to write to.
+ * @returns The logger.
+ */
+export function createRedactingLogger(logger: Logger): Logger {
+  const write =
+    (level: LogLevel) =>
+    (message: string, context?: LogContext): void => {
+      logger[level](
+        redactText(message),
+        context === undefined ? undefined : (redact(context) as LogContext),
+      );
+    };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Deep-copies a value with every credential replaced by a placeholder.
+ * Errors are reduced to their name, message and public diagnostic fields.
+ * @param value - The value to redact.
+ * @returns The redacted copy.
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const error = value as Error & { [field: string]: unknown };
+    const summary: LogContext = {
+      name: error.name,
+      message: redactText(error.message),
+    };
+    for (const field of ['status', 'code', 'errorCode', 'errorDetails']) {
+      if (error[field] !== undefined) {
+        summary[field] = redact(error[field], seen);
+      }
+    }
+    if (error.cause !== undefined) {
+      summary.cause = redact(error.cause, seen);
+    }
+    return summary;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  const copy: LogContext = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    copy[field] =
+      SECRET_FIELD.test(field) && fieldValue !== undefined && fieldValue !== ''
+        ? REDACTED
+        : redact(fieldValue, seen);
+  }
+  return copy;
+}
+
+/**
+ * Replaces credentials embedded in free text.
+ * @param text - The text to redact.
+ * @returns The redacted text.
+ */
+function redactText(text: string): string {
+  return SECRET_TEXT.reduce(
+    (result, pattern) =>
+      result.replace(pattern, (match, scheme) =>
+        typeof scheme === 'string' ? `${scheme} ${REDACTED}` : REDACTED,
+      ),
+    text,
+  );
+}
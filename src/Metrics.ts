@@ -0,0 +1,391 @@
+import { createServer, RequestListener, Server } from 'http';
+import { BlueAirDeviceSensorData, BlueAirDeviceStatus } from './Consts';
+
+/**
+ * Receives the measurements of a client. Pass one as the `metrics` client option.
+ */
+export interface MetricsRecorder {
+  // A finished AWS API request. Status is 0 when no response was received.
+  recordRequest(
+    route: string,
+    method: string,
+    status: number,
+    duration: number,
+  ): void;
+  // A failed AWS API request that is going to be retried.
+  recordRetry(route: string, method: string): void;
+  // A login with the password.
+  recordLogin(): void;
+  // A new or resumed access token, with the time it was issued.
+  recordToken(issuedAt: number): void;
+  // A successful status read of devices.
+  recordDeviceStatus(statuses: BlueAirDeviceStatus[], timestamp: number): void;
+}
+
+export type MetricsServerOptions = {
+  // Defaults to 9464, the port commonly used by exporters.
+  port?: number;
+  // Defaults to all interfaces.
+  host?: string;
+  // Defaults to '/metrics'.
+  path?: string;
+};
+
+type Labels = { [name: string]: string };
+
+type Histogram = { buckets: number[]; count: number; sum: number };
+
+type DeviceSample = { status: BlueAirDeviceStatus; timestamp: number };
+
+// Latency histogram bucket bounds, in seconds
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Gauge name and help text of each sensor reading
+const SENSOR_GAUGES: {
+  [sensor in keyof Required<BlueAirDeviceSensorData>]: {
+    name: string;
+    help: string;
+  };
+} = {
+  pm1: {
+    name: 'blueair_pm1_micrograms_per_cubic_meter',
+    help: 'PM1 particulate concentration.',
+  },
+  pm2_5: {
+    name: 'blueair_pm2_5_micrograms_per_cubic_meter',
+    help: 'PM2.5 particulate concentration.',
+  },
+  pm10: {
+    name: 'blueair_pm10_micrograms_per_cubic_meter',
+    help: 'PM10 particulate concentration.',
+  },
+  voc: { name: 'blueair_voc_ppb', help: 'Volatile organic compounds.' },
+  hcho: { name: 'blueair_hcho_ppb', help: 'Formaldehyde.' },
+  temperature: { name: 'blueair_temperature_celsius', help: 'Temperature.' },
+  humidity: { name: 'blueair_humidity_percent', help: 'Relative humidity.' },
+  fanspeed: { name: 'blueair_fan_speed_percent', help: 'Fan speed.' },
+};
+
+// Segments such as account and device uuids, replaced to keep the number of routes bounded
+const ID_SEGMENT =
+  /\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?=\/|$)/gi;
+
+/**
+ * Reduces an API path to a route label, e.g. `/<accountuuid>/r/initial` to `/:id/r/initial`.
+ * @param url - The path of the request.
+ * @returns The route.
+ */
+export function metricRoute(url: string): string {
+  return url.split('?')[0].replace(ID_SEGMENT, '/:id');
+}
+
+/**
+ * Collects client and device metrics and renders them in the OpenMetrics text format.
+ * Device gauges hold the values of the last status read of each device.
+ */
+export class BlueAirMetrics implements MetricsRecorder {
+  // Content type of render()
+  public static readonly contentType =
+    'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+  private requests = new Map<string, { labels: Labels; value: number }>();
+  private durations = new Map<string, { labels: Labels } & Histogram>();
+  private retries = new Map<string, { labels: Labels; value: number }>();
+  private logins = 0;
+  private tokenIssuedAt: number | null = null;
+  private lastPoll: number | null = null;
+  private devices = new Map<string, DeviceSample>();
+
+  /**
+   * @param now - Clock used for the token age, for tests.
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Counts a request and adds its duration to the latency histogram.
+   */
+  public recordRequest(
+    route: string,
+    method: string,
+    status: number,
+    duration: number,
+  ): void {
+    increment(this.requests, { route, method, status: String(status) });
+
+    const labels = { route, method };
+    const key = labelKey(labels);
+    const histogram = this.durations.get(key) ?? {
+      labels,
+      buckets: DURATION_BUCKETS.map(() => 0),
+      count: 0,
+      sum: 0,
+    };
+    const seconds = duration / 1000;
+    DURATION_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        histogram.buckets[index]++;
+      }
+    });
+    histogram.count++;
+    histogram.sum += seconds;
+    this.durations.set(key, histogram);
+  }
+
+  /**
+   * Counts a retried request.
+   */
+  public recordRetry(route: string, method: string): void {
+    increment(this.retries, { route, method });
+  }
+
+  /**
+   * Counts a login.
+   */
+  public recordLogin(): void {
+    this.logins++;
+  }
+
+  /**
+   * Remembers when the current access token was issued.
+   */
+  public recordToken(issuedAt: number): void {
+    this.tokenIssuedAt = issuedAt;
+  }
+
+  /**
+   * Updates the device gauges and the last poll time.
+   */
+  public recordDeviceStatus(
+    statuses: BlueAirDeviceStatus[],
+    timestamp: number,
+  ): void {
+    this.lastPoll = timestamp;
+    for (const status of statuses) {
+      this.devices.set(status.id, { status, timestamp });
+    }
+  }
+
+  /**
+   * Forgets a device, e.g. after it was removed from the account.
+   * @param uuid - The device uuid.
+   */
+  public removeDevice(uuid: string): void {
+    this.devices.delete(uuid);
+  }
+
+  /**
+   * Renders all metrics in the OpenMetrics text format.
+   * @returns {string} - The exposition, ending with `# EOF`.
+   */
+  public render(): string {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string) => {
+      lines.push(`# TYPE ${name} ${type}`, `# HELP ${name} ${help}`);
+    };
+
+    family(
+      'blueair_api_requests',
+      'counter',
+      'AWS API requests by route and status.',
+    );
+    for (const { labels, value } of this.requests.values()) {
+      lines.push(sample('blueair_api_requests_total', labels, value));
+    }
+
+    family(
+      'blueair_api_request_duration_seconds',
+      'histogram',
+      'AWS API request latency by route.',
+    );
+    for (const { labels, buckets, count, sum } of this.durations.values()) {
+      const name = 'blueair_api_request_duration_seconds';
+      DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(
+          sample(
+            `${name}_bucket`,
+            { ...labels, le: String(bound) },
+            buckets[index],
+          ),
+        );
+      });
+      lines.push(
+        sample(`${name}_bucket`, { ...labels, le: '+Inf' }, count),
+        sample(`${name}_count`, labels, count),
+        sample(`${name}_sum`, labels, sum),
+      );
+    }
+
+    family(
+      'blueair_api_retries',
+      'counter',
+      'AWS API requests that were retried.',
+    );
+    for (const { labels, value } of this.retries.values()) {
+      lines.push(sample('blueair_api_retries_total', labels, value));
+    }
+
+    family('blueair_logins', 'counter', 'Logins with the password.');
+    lines.push(sample('blueair_logins_total', {}, this.logins));
+
+    if (this.tokenIssuedAt !== null) {
+      family(
+        'blueair_token_age_seconds',
+        'gauge',
+        'Age of the current access token.',
+      );
+      lines.push(
+        sample(
+          'blueair_token_age_seconds',
+          {},
+          (this.now() - this.tokenIssuedAt) / 1000,
+        ),
+      );
+    }
+
+    if (this.lastPoll !== null) {
+      family(
+        'blueair_last_poll_timestamp_seconds',
+        'gauge',
+        'Time of the last successful device status read.',
+      );
+      lines.push(
+        sample('blueair_last_poll_timestamp_seconds', {}, this.lastPoll / 1000),
+      );
+    }
+
+    const devices = Array.from(this.devices.values());
+    const deviceLabels = ({ status }: { status: BlueAirDeviceStatus }) => ({
+      uuid: status.id,
+      name: status.name,
+      model: status.model,
+    });
+
+    for (const [sensor, gauge] of Object.entries(SENSOR_GAUGES)) {
+      const readings = devices.filter(
+        ({ status }) =>
+          status.sensorData[sensor as keyof BlueAirDeviceSensorData] !==
+          undefined,
+      );
+      if (readings.length > 0) {
+        family(gauge.name, 'gauge', gauge.help);
+        for (const device of readings) {
+          lines.push(
+            sample(
+              gauge.name,
+              deviceLabels(device),
+              device.status.sensorData[
+                sensor as keyof BlueAirDeviceSensorData
+              ] as number,
+            ),
+          );
+        }
+      }
+    }
+
+    const filters = devices.filter(hasFilterUsage);
+    if (filters.length > 0) {
+      family('blueair_filter_usage_percent', 'gauge', 'Filter usage.');
+      for (const device of filters) {
+        lines.push(
+          sample(
+            'blueair_filter_usage_percent',
+            deviceLabels(device),
+            device.status.state.filterusage,
+          ),
+        );
+      }
+    }
+
+    if (devices.length > 0) {
+      family(
+        'blueair_device_last_update_timestamp_seconds',
+        'gauge',
+        'Time the status of the device was last read.',
+      );
+      for (const device of devices) {
+        lines.push(
+          sample(
+            'blueair_device_last_update_timestamp_seconds',
+            deviceLabels(device),
+            device.timestamp / 1000,
+          ),
+        );
+      }
+    }
+
+    lines.push('# EOF');
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * Creates a request listener serving the metrics, e.g. to mount in an existing server.
+ * @param metrics - The metrics to serve.
+ * @param path - The path serving the metrics. Other paths get a 404.
+ * @returns The request listener.
+ */
+export function createMetricsHandler(
+  metrics: BlueAirMetrics,
+  path = '/metrics',
+): RequestListener {
+  return (req, res) => {
+    if (req.method !== 'GET' || req.url?.split('?')[0] !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+    res
+      .writeHead(200, { 'Content-Type': BlueAirMetrics.contentType })
+      .end(metrics.render());
+  };
+}
+
+/**
+ * Starts an HTTP server exposing the metrics for scraping.
+ * @param metrics - The metrics to serve.
+ * @param options - Port, host and path.
+ * @returns {Promise<Server>} - The listening server; close it to stop serving.
+ */
+export function startMetricsServer(
+  metrics: BlueAirMetrics,
+  options: MetricsServerOptions = {},
+): Promise<Server> {
+  const server = createServer(createMetricsHandler(metrics, options.path));
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 9464, options.host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+function increment(
+  counters: Map<string, { labels: Labels; value: number }>,
+  labels: Labels,
+): void {
+  const key = labelKey(labels);
+  const counter = counters.get(key) ?? { labels, value: 0 };
+  counter.value++;
+  counters.set(key, counter);
+}
+
+function hasFilterUsage(
+  device: DeviceSample,
+): device is DeviceSample & { status: { state: { filterusage: number } } } {
+  return device.status.state.filterusage !== undefined;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(labels);
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels).map(
+    ([label, text]) =>
+      `${label}="${text
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')}"`,
+  );
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`;
+}
@@ -0,0 +1,515 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { BlueAirSensorDataEntry, BlueAirStateEntry } from './Consts';
+import { getJwtExpiry } from './Jwt';
+
+/**
+ * A fake device served by the mock cloud. States and sensors use the raw
+ * names of the API, e.g. `fanspeed` or `pm2_5`.
+ */
+export type MockDevice = {
+  uuid: string;
+  name: string;
+  mac: string;
+  model: string;
+  sku: string;
+  mcuFirmware: string;
+  wifiFirmware: string;
+  serial: string;
+  states: { [name: string]: number | boolean | string };
+  sensors: { [name: string]: number };
+  // Delay before a command takes effect, in milliseconds. Infinity ignores commands.
+  applyDelay?: number;
+};
+
+/**
+ * The routes of the mock cloud, used to target faults.
+ */
+export type MockRoute =
+  | 'homehost'
+  | 'accounts.login'
+  | 'accounts.getJWT'
+  | 'login'
+  | 'registered-devices'
+  | 'initial'
+  | 'action';
+
+/**
+ * A failure the mock cloud injects into matching requests.
+ */
+export type MockFault = {
+  // Routes affected, all routes if omitted.
+  routes?: MockRoute[];
+  // Delay before responding, in milliseconds.
+  latency?: number;
+  // Respond with this HTTP status instead of handling the request.
+  status?: number;
+  // Never respond.
+  timeout?: boolean;
+  // Respond with a body that is not valid JSON.
+  malformed?: boolean;
+  // Number of requests affected, 1 by default.
+  times?: number;
+};
+
+export type MockRequest = {
+  route: MockRoute | null;
+  method: string;
+  path: string;
+  body: unknown;
+};
+
+export type MockBlueAirCloudOptions = {
+  username: string;
+  password: string;
+  accountuuid?: string;
+  // The AWS region the homehost endpoint reports, e.g. 'eu-west-1'.
+  awsRegion?: string;
+  // Lifetime of issued JWTs and access tokens, in seconds.
+  tokenLifetime?: number;
+  devices?: Partial<MockDevice>[];
+};
+
+/**
+ * In-process emulation of the BlueAir cloud: the homehost endpoint, the Gigya
+ * accounts API and the AWS API, with stateful fake devices and fault injection.
+ * Point a client at it through the `endpoints` client option.
+ */
+export class MockBlueAirCloud {
+  public readonly devices = new Map<string, MockDevice>();
+  public readonly requests: MockRequest[] = [];
+  public readonly accountuuid: string;
+
+  private server: http.Server | null = null;
+  private faults: MockFault[] = [];
+  private sessions = new Map<string, string>();
+  private jwts = new Set<string>();
+  private accessTokens = new Set<string>();
+  private readonly awsRegion: string;
+  private readonly tokenLifetime: number;
+
+  constructor(private readonly options: MockBlueAirCloudOptions) {
+    this.accountuuid = options.accountuuid ?? randomUUID();
+    this.awsRegion = options.awsRegion ?? 'eu-west-1';
+    this.tokenLifetime = options.tokenLifetime ?? 3600;
+    for (const device of options.devices ?? [{}]) {
+      this.addDevice(device);
+    }
+  }
+
+  /**
+   * The base URL of the running server.
+   */
+  public get url(): string {
+    if (!this.server) {
+      throw new Error('MockBlueAirCloud is not started');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Base URLs to pass as the `endpoints` client option.
+   */
+  public get endpoints(): { homehost: string; gigya: string; aws: string } {
+    return {
+      homehost: `${this.url}/v2/`,
+      gigya: `${this.url}/gigya`,
+      aws: `${this.url}/prod/c`,
+    };
+  }
+
+  /**
+   * Starts listening on the loopback interface.
+   * @param port - The port, a random free port by default.
+   */
+  public async start(port = 0): Promise<void> {
+    const server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(port, '127.0.0.1', resolve);
+    });
+    this.server = server;
+  }
+
+  /**
+   * Stops the server, dropping open connections including timed out requests.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return;
+    }
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Adds a fake device. Missing fields get sensible defaults.
+   * @param device - The device.
+   * @returns The complete device.
+   */
+  public addDevice(device: Partial<MockDevice> = {}): MockDevice {
+    const index = this.devices.size + 1;
+    const complete: MockDevice = {
+      uuid: randomUUID(),
+      name: `Purifier ${index}`,
+      mac: `c4:dd:57:00:00:${index.toString(16).padStart(2, '0')}`,
+      model: 'urn:blueair:openapi:version:healthprotect:0.0.5',
+      sku: '106121',
+      mcuFirmware: '1.0.12',
+      wifiFirmware: '2.1.1',
+      serial: `1106121000001101100${index.toString().padStart(5, '0')}`,
+      ...device,
+      states: {
+        standby: false,
+        fanspeed: 11,
+        automode: true,
+        nightmode: false,
+        childlock: false,
+        germshield: false,
+        brightness: 100,
+        filterusage: 10,
+        ...device.states,
+      },
+      sensors: {
+        pm1: 2,
+        pm2_5: 3,
+        pm10: 4,
+        tVOC: 120,
+        t: 21.5,
+        h: 40,
+        ...device.sensors,
+      },
+    };
+    this.devices.set(complete.uuid, complete);
+    return complete;
+  }
+
+  /**
+   * Injects a fault into the next matching requests.
+   * @param fault - The fault.
+   */
+  public injectFault(fault: MockFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  /**
+   * Removes all pending faults.
+   */
+  public clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Invalidates every issued JWT and access token, as if they had been revoked.
+   * Gigya sessions stay valid.
+   */
+  public revokeTokens(): void {
+    this.jwts.clear();
+    this.accessTokens.clear();
+  }
+
+  /**
+   * Invalidates every Gigya session, so only a login with the password succeeds.
+   */
+  public revokeSessions(): void {
+    this.sessions.clear();
+    this.revokeTokens();
+  }
+
+  /**
+   * Counts the requests received on a route.
+   * @param route - The route.
+   * @returns The number of requests.
+   */
+  public countRequests(route: MockRoute): number {
+    return this.requests.filter((request) => request.route === route).length;
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const body = await readBody(req);
+    const route = matchRoute(req.method ?? 'GET', url.pathname);
+    this.requests.push({
+      route,
+      method: req.method ?? 'GET',
+      path: url.pathname,
+      body,
+    });
+
+    const fault = route ? this.takeFault(route) : undefined;
+    if (fault?.latency) {
+      await new Promise((resolve) => setTimeout(resolve, fault.latency));
+    }
+    if (fault?.timeout) {
+      return;
+    }
+    if (fault?.malformed) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{"truncated":');
+      return;
+    }
+    if (fault?.status) {
+      return send(res, fault.status, { message: 'Injected fault' });
+    }
+
+    switch (route) {
+      case 'homehost':
+        return this.homehost(req, res);
+      case 'accounts.login':
+        return this.gigyaLogin(url, res);
+      case 'accounts.getJWT':
+        return this.gigyaJwt(url, res);
+      case 'login':
+        return this.awsLogin(req, res);
+      case 'registered-devices':
+        return this.authorized(req, res, () => this.registeredDevices(res));
+      case 'initial':
+        return this.authorized(req, res, () => this.initial(body, res));
+      case 'action':
+        return this.authorized(req, res, () =>
+          this.action(url.pathname, body, res),
+        );
+      default:
+        return send(res, 404, { message: 'Not Found' });
+    }
+  }
+
+  private takeFault(route: MockRoute): MockFault | undefined {
+    const index = this.faults.findIndex(
+      (fault) => !fault.routes || fault.routes.includes(route),
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const fault = this.faults[index];
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private homehost(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const expected = Buffer.from(
+      `${this.options.username}:${this.options.password}`,
+    ).toString('base64');
+    if (req.headers.authorization !== `Basic ${expected}`) {
+      return send(res, 401, { message: 'Unauthorized' });
+    }
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end(`api-${this.awsRegion}.blueair.io`);
+  }
+
+  private gigyaLogin(url: URL, res: http.ServerResponse): void {
+    const params = url.searchParams;
+    if (
+      params.get('loginID') !== this.options.username ||
+      params.get('password') !== this.options.password
+    ) {
+      return send(res, 200, {
+        errorCode: 403042,
+        errorMessage: 'Invalid LoginID',
+        errorDetails: 'invalid loginID or password',
+        statusCode: 403,
+      });
+    }
+
+    const sessionToken = randomUUID();
+    const sessionSecret = randomUUID();
+    this.sessions.set(sessionToken, sessionSecret);
+    send(res, 200, {
+      errorCode: 0,
+      statusCode: 200,
+      sessionInfo: { sessionToken, sessionSecret },
+    });
+  }
+
+  private gigyaJwt(url: URL, res: http.ServerResponse): void {
+    const token = url.searchParams.get('oauth_token') ?? '';
+    if (this.sessions.get(token) !== url.searchParams.get('secret')) {
+      return send(res, 200, {
+        errorCode: 403005,
+        errorMessage: 'Unauthorized user',
+        errorDetails: 'invalid session',
+        statusCode: 403,
+      });
+    }
+
+    const jwt = this.issueToken('gigya');
+    this.jwts.add(jwt);
+    send(res, 200, { errorCode: 0, statusCode: 200, id_token: jwt });
+  }
+
+  private awsLogin(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const jwt = req.headers.idtoken;
+    if (typeof jwt !== 'string' || !this.jwts.has(jwt) || isExpired(jwt)) {
+      return send(res, 401, { message: 'Unauthorized' });
+    }
+
+    const accessToken = this.issueToken('aws');
+    this.accessTokens.add(accessToken);
+    send(res, 200, { access_token: accessToken });
+  }
+
+  private authorized(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    handler: () => void,
+  ): void {
+    const token = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    if (!this.accessTokens.has(token) || isExpired(token)) {
+      return send(res, 401, { message: 'Unauthorized' });
+    }
+    handler();
+  }
+
+  private registeredDevices(res: http.ServerResponse): void {
+    send(res, 200, {
+      devices: Array.from(this.devices.values()).map((device) => ({
+        'mac': device.mac,
+        'mcu-firmware': device.mcuFirmware,
+        // The API reports the account uuid as the device name
+        'name': this.accountuuid,
+        'type': 'healthprotect',
+        'user-type': 'owner',
+        'uuid': device.uuid,
+        'wifi-firmware': device.wifiFirmware,
+      })),
+    });
+  }
+
+  private initial(body: any, res: http.ServerResponse): void {
+    const ids: string[] = (body?.deviceconfigquery ?? []).map(
+      (query: { id: string }) => query.id,
+    );
+    const now = Math.floor(Date.now() / 1000);
+
+    send(res, 200, {
+      deviceInfo: ids
+        .map((id) => this.devices.get(id))
+        .filter((device): device is MockDevice => !!device)
+        .map((device) => ({
+          id: device.uuid,
+          configuration: {
+            di: {
+              cma: device.mac,
+              name: device.name,
+              sku: device.sku,
+              mfv: device.mcuFirmware,
+              ofv: device.wifiFirmware,
+              hw: 'high_1.5',
+              ds: device.serial,
+            },
+            _it: device.model,
+          },
+          sensordata: Object.entries(device.sensors).map(
+            ([n, v]): BlueAirSensorDataEntry => ({ n, t: now, v }),
+          ),
+          states: Object.entries(device.states).map(
+            ([n, value]): BlueAirStateEntry =>
+              typeof value === 'boolean'
+                ? { n, t: now, vb: value }
+                : typeof value === 'string'
+                  ? { n, t: now, vs: value }
+                  : { n, t: now, v: value },
+          ),
+        })),
+    });
+  }
+
+  private action(path: string, body: any, res: http.ServerResponse): void {
+    const [, uuid, , state] = path.replace(/^\/prod\/c/, '').split('/');
+    const device = this.devices.get(uuid);
+    if (!device) {
+      return send(res, 404, { message: 'Device not found' });
+    }
+    if (body?.n !== state || (body.v === undefined && body.vb === undefined)) {
+      return send(res, 400, { message: 'Invalid state body' });
+    }
+
+    const value = body.v !== undefined ? body.v : body.vb;
+    if (device.applyDelay === undefined) {
+      device.states[state] = value;
+    } else if (isFinite(device.applyDelay)) {
+      setTimeout(() => {
+        device.states[state] = value;
+      }, device.applyDelay).unref();
+    }
+    send(res, 200, {});
+  }
+
+  private issueToken(issuer: string): string {
+    return [
+      base64url({ alg: 'none', typ: 'JWT' }),
+      base64url({
+        iss: issuer,
+        sub: this.options.username,
+        jti: randomUUID(),
+        exp: Math.floor(Date.now() / 1000) + this.tokenLifetime,
+      }),
+      'mock',
+    ].join('.');
+  }
+}
+
+function matchRoute(method: string, path: string): MockRoute | null {
+  if (method === 'GET' && /^\/v2\/user\/[^/]+\/homehost\/?$/.test(path)) {
+    return 'homehost';
+  }
+  if (method === 'POST' && path === '/gigya/accounts.login') {
+    return 'accounts.login';
+  }
+  if (method === 'POST' && path === '/gigya/accounts.getJWT') {
+    return 'accounts.getJWT';
+  }
+  if (method === 'POST' && path === '/prod/c/login') {
+    return 'login';
+  }
+  if (method === 'GET' && path === '/prod/c/registered-devices') {
+    return 'registered-devices';
+  }
+  if (method === 'POST' && /^\/prod\/c\/[^/]+\/r\/initial$/.test(path)) {
+    return 'initial';
+  }
+  if (method === 'POST' && /^\/prod\/c\/[^/]+\/a\/[^/]+$/.test(path)) {
+    return 'action';
+  }
+  return null;
+}
+
+function isExpired(token: string): boolean {
+  return (getJwtExpiry(token) ?? 0) <= Date.now();
+}
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+}
+
+function send(res: http.ServerResponse, status: number, body: object): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
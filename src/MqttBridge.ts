@@ -0,0 +1,428 @@
+import { EventEmitter } from 'events';
+import type { BlueAirAwsClient } from './BlueAirAwsClient';
+import {
+  BlueAirDeviceSensorData,
+  BlueAirDeviceState,
+  BlueAirDeviceStatus,
+} from './Consts';
+import { DevicePoller, DevicePollerOptions } from './DevicePoller';
+import { BlueAirValidationError, toBlueAirError } from './Errors';
+import { Logger, noopLogger } from './Logger';
+
+/**
+ * Minimal shape of an MQTT client, as implemented by the `mqtt` package.
+ */
+export interface MqttClientLike {
+  publish(
+    topic: string,
+    message: string,
+    options?: { retain?: boolean; qos?: 0 | 1 | 2 },
+  ): unknown;
+  subscribe(topic: string | string[]): unknown;
+  unsubscribe(topic: string | string[]): unknown;
+  on(
+    event: 'message',
+    listener: (topic: string, payload: Buffer) => void,
+  ): unknown;
+  removeListener(
+    event: 'message',
+    listener: (topic: string, payload: Buffer) => void,
+  ): unknown;
+}
+
+/**
+ * What the bridge needs from the client.
+ */
+export type MqttBridgeSource = Pick<
+  BlueAirAwsClient,
+  | 'getDeviceStatus'
+  | 'getCapabilities'
+  | 'subscribe'
+  | 'setStandby'
+  | 'setFanSpeed'
+  | 'setChildLock'
+  | 'setDeviceStatus'
+>;
+
+export type MqttBridgeOptions = {
+  // Prefix of the state and command topics. Defaults to 'blueair'.
+  baseTopic?: string;
+  // Prefix Home Assistant listens on for discovery. Defaults to 'homeassistant'.
+  discoveryPrefix?: string;
+  // Set to false to skip the Home Assistant discovery payloads.
+  discovery?: boolean;
+  // Settings of the subscription providing the updates.
+  subscription?: DevicePollerOptions;
+};
+
+/**
+ * A command received on a command topic.
+ */
+export type MqttCommand = {
+  uuid: string;
+  // The topic segment naming the command, e.g. 'fanspeed'.
+  command: string;
+  payload: string;
+};
+
+export type MqttBridgeEvents = {
+  // A command was passed to the client successfully.
+  command: MqttCommand;
+  // A command failed or the updates could not be read.
+  error: { error: unknown; command?: MqttCommand };
+};
+
+export interface MqttBridge {
+  on<K extends keyof MqttBridgeEvents>(
+    event: K,
+    listener: (payload: MqttBridgeEvents[K]) => void,
+  ): this;
+  once<K extends keyof MqttBridgeEvents>(
+    event: K,
+    listener: (payload: MqttBridgeEvents[K]) => void,
+  ): this;
+  off<K extends keyof MqttBridgeEvents>(
+    event: K,
+    listener: (payload: MqttBridgeEvents[K]) => void,
+  ): this;
+  emit<K extends keyof MqttBridgeEvents>(
+    event: K,
+    payload: MqttBridgeEvents[K],
+  ): boolean;
+}
+
+// Home Assistant sensor settings for each sensor reading
+const SENSORS: {
+  [sensor in keyof BlueAirDeviceSensorData]?: {
+    name: string;
+    unit: string;
+    deviceClass?: string;
+  };
+} = {
+  pm1: { name: 'PM1', unit: 'µg/m³', deviceClass: 'pm1' },
+  pm2_5: { name: 'PM2.5', unit: 'µg/m³', deviceClass: 'pm25' },
+  pm10: { name: 'PM10', unit: 'µg/m³', deviceClass: 'pm10' },
+  voc: {
+    name: 'VOC',
+    unit: 'ppb',
+    deviceClass: 'volatile_organic_compounds_parts',
+  },
+  hcho: { name: 'Formaldehyde', unit: 'ppb' },
+  temperature: { name: 'Temperature', unit: '°C', deviceClass: 'temperature' },
+  humidity: { name: 'Humidity', unit: '%', deviceClass: 'humidity' },
+};
+
+// Switches with the state they control
+const SWITCHES: {
+  command: string;
+  state: 'childlock' | 'germshield';
+  name: string;
+}[] = [
+  { command: 'childlock', state: 'childlock', name: 'Child lock' },
+  { command: 'germshield', state: 'germshield', name: 'GermShield' },
+];
+
+/**
+ * Publishes the state and sensor data of devices to MQTT and passes commands received on
+ * MQTT to the client, with Home Assistant discovery for a fan, switches and sensors per device.
+ *
+ * Topics below the base topic:
+ * - `status`: `online` while the bridge runs, `offline` after stop()
+ * - `<uuid>/state` and `<uuid>/sensors`: the latest state and sensor data as JSON
+ * - `<uuid>/<command>/set`: commands; `power` (ON/OFF), `fanspeed` (0-100),
+ *   `preset` (auto/night), `childlock` and `germshield` (ON/OFF)
+ */
+export class MqttBridge extends EventEmitter {
+  private subscription: DevicePoller | null = null;
+  private readonly baseTopic: string;
+  private readonly discoveryPrefix: string;
+  private readonly onMessage = (topic: string, payload: Buffer) =>
+    this.handleMessage(topic, payload.toString());
+
+  /**
+   * @param client - The client reading and controlling the devices.
+   * @param mqtt - The connected MQTT client.
+   * @param accountuuid - The main account uuid.
+   * @param uuids - The devices to bridge.
+   * @param options - Topic and subscription settings.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    private readonly client: MqttBridgeSource,
+    private readonly mqtt: MqttClientLike,
+    public readonly accountuuid: string,
+    public readonly uuids: string[],
+    private readonly options: MqttBridgeOptions = {},
+    private readonly logger: Logger = noopLogger,
+  ) {
+    super();
+    this.baseTopic = options.baseTopic ?? 'blueair';
+    this.discoveryPrefix = options.discoveryPrefix ?? 'homeassistant';
+  }
+
+  /**
+   * Reads the devices, publishes their discovery payloads and current values,
+   * then follows updates and listens for commands.
+   * @returns {Promise<void>} - Resolves once the bridge is running.
+   */
+  public async start(): Promise<void> {
+    if (this.subscription) {
+      return;
+    }
+
+    const statuses = await this.client.getDeviceStatus(
+      this.accountuuid,
+      this.uuids,
+    );
+    for (const status of statuses) {
+      if (this.options.discovery !== false) {
+        this.publishDiscovery(status);
+      }
+      this.publishState(status.id, status.state);
+      this.publishSensors(status.id, status.sensorData);
+    }
+    this.publish(`${this.baseTopic}/status`, 'online');
+
+    this.mqtt.on('message', this.onMessage);
+    this.mqtt.subscribe(`${this.baseTopic}/+/+/set`);
+
+    this.subscription = await this.client.subscribe(
+      this.accountuuid,
+      this.uuids,
+      undefined,
+      this.options.subscription,
+    );
+    this.subscription.on('stateChanged', ({ uuid, state }) =>
+      this.publishState(uuid, state),
+    );
+    this.subscription.on('sensorData', ({ uuid, sensorData }) =>
+      this.publishSensors(uuid, sensorData),
+    );
+    this.subscription.on('error', ({ error }) => this.reportError(error));
+  }
+
+  /**
+   * Stops following updates and commands and marks the devices unavailable.
+   */
+  public stop(): void {
+    if (!this.subscription) {
+      return;
+    }
+    this.subscription.stop();
+    this.subscription = null;
+    this.mqtt.unsubscribe(`${this.baseTopic}/+/+/set`);
+    this.mqtt.removeListener('message', this.onMessage);
+    this.publish(`${this.baseTopic}/status`, 'offline');
+  }
+
+  /**
+   * Passes a command to the matching setter.
+   * @param command - The command.
+   * @throws {BlueAirValidationError} - If the command or its payload is invalid.
+   */
+  public async execute({ uuid, command, payload }: MqttCommand): Promise<void> {
+    const value = payload.trim();
+
+    switch (command) {
+      case 'power':
+        await this.client.setStandby(uuid, !parseSwitch(command, value));
+        break;
+      case 'fanspeed': {
+        const speed = Number(value);
+        if (value === '' || isNaN(speed)) {
+          throw new BlueAirValidationError(`Invalid fan speed ${value}`);
+        }
+        await this.client.setFanSpeed(uuid, speed);
+        break;
+      }
+      case 'preset':
+        if (value === 'auto') {
+          await this.applyPreset(uuid, 'automode', 'nightmode');
+        } else if (value === 'night') {
+          await this.applyPreset(uuid, 'nightmode', 'automode');
+        } else {
+          throw new BlueAirValidationError(`Unknown preset ${value}`);
+        }
+        break;
+      case 'childlock':
+        await this.client.setChildLock(uuid, parseSwitch(command, value));
+        break;
+      case 'germshield':
+        await this.client.setDeviceStatus(
+          uuid,
+          'germshield',
+          parseSwitch(command, value),
+        );
+        break;
+      default:
+        throw new BlueAirValidationError(`Unknown command ${command}`);
+    }
+  }
+
+  /**
+   * Switches a preset on and the other one off. The other one is written off first, so
+   * the device never reports both in between the two writes.
+   */
+  private async applyPreset(
+    uuid: string,
+    preset: 'automode' | 'nightmode',
+    other: 'automode' | 'nightmode',
+  ): Promise<void> {
+    const capabilities = this.client.getCapabilities(uuid);
+    if (capabilities?.states[other] !== false) {
+      await this.client.setDeviceStatus(uuid, other, false);
+    }
+    await this.client.setDeviceStatus(uuid, preset, true);
+  }
+
+  private async handleMessage(topic: string, payload: string): Promise<void> {
+    const prefix = `${this.baseTopic}/`;
+    if (!topic.startsWith(prefix) || !topic.endsWith('/set')) {
+      return;
+    }
+    const [uuid, command] = topic.slice(prefix.length).split('/');
+    if (!this.uuids.includes(uuid)) {
+      return;
+    }
+
+    const received = { uuid, command, payload };
+    this.logger.debug('MQTT command received', { uuid, command });
+    try {
+      await this.execute(received);
+      this.emit('command', received);
+    } catch (error) {
+      this.reportError(error, received);
+    }
+  }
+
+  private reportError(error: unknown, command?: MqttCommand): void {
+    const wrapped = toBlueAirError(error, 'MQTT bridge');
+    this.logger.warn(wrapped.message, { uuid: command?.uuid });
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', { error: wrapped, command });
+    }
+  }
+
+  private publishState(uuid: string, state: BlueAirDeviceState): void {
+    this.publish(`${this.baseTopic}/${uuid}/state`, JSON.stringify(state));
+  }
+
+  private publishSensors(
+    uuid: string,
+    sensorData: BlueAirDeviceSensorData,
+  ): void {
+    this.publish(
+      `${this.baseTopic}/${uuid}/sensors`,
+      JSON.stringify(sensorData),
+    );
+  }
+
+  /**
+   * Publishes the Home Assistant discovery payloads of a device, leaving out
+   * the entities its capabilities rule out.
+   */
+  private publishDiscovery(status: BlueAirDeviceStatus): void {
+    const { id: uuid, capabilities } = status;
+    const topic = `${this.baseTopic}/${uuid}`;
+    const common = {
+      availability_topic: `${this.baseTopic}/status`,
+      device: {
+        identifiers: [`blueair_${uuid}`],
+        name: status.name,
+        manufacturer: 'Blueair',
+        model: capabilities.family,
+        sw_version: status.mcu,
+      },
+    };
+    const config = (component: string, object: string, payload: object) =>
+      this.publish(
+        `${this.discoveryPrefix}/${component}/blueair_${uuid}/${object}/config`,
+        JSON.stringify({
+          ...payload,
+          unique_id: `blueair_${uuid}_${object}`,
+          ...common,
+        }),
+      );
+
+    const presets = [
+      ...(capabilities.states.automode ? ['auto'] : []),
+      ...(capabilities.states.nightmode ? ['night'] : []),
+    ];
+    config('fan', 'fan', {
+      name: null,
+      state_topic: `${topic}/state`,
+      state_value_template: "{{ 'OFF' if value_json.standby else 'ON' }}",
+      command_topic: `${topic}/power/set`,
+      ...(capabilities.states.fanspeed && {
+        percentage_state_topic: `${topic}/state`,
+        percentage_value_template: '{{ value_json.fanspeed }}',
+        percentage_command_topic: `${topic}/fanspeed/set`,
+        speed_range_min: Math.max(1, capabilities.states.fanspeed.min),
+        speed_range_max: capabilities.states.fanspeed.max,
+      }),
+      ...(presets.length > 0 && {
+        preset_modes: presets,
+        preset_mode_state_topic: `${topic}/state`,
+        preset_mode_value_template:
+          "{{ 'auto' if value_json.automode else ('night' if value_json.nightmode else 'None') }}",
+        preset_mode_command_topic: `${topic}/preset/set`,
+      }),
+    });
+
+    for (const { command, state, name } of SWITCHES) {
+      if (capabilities.states[state]) {
+        config('switch', command, {
+          name,
+          state_topic: `${topic}/state`,
+          value_template: `{{ 'ON' if value_json.${state} else 'OFF' }}`,
+          command_topic: `${topic}/${command}/set`,
+        });
+      }
+    }
+
+    for (const sensor of capabilities.sensors) {
+      const settings = SENSORS[sensor];
+      if (settings) {
+        config('sensor', sensor, {
+          name: settings.name,
+          state_topic: `${topic}/sensors`,
+          value_template: `{{ value_json.${sensor} }}`,
+          unit_of_measurement: settings.unit,
+          device_class: settings.deviceClass,
+          state_class: 'measurement',
+        });
+      }
+    }
+
+    config('sensor', 'filterusage', {
+      name: 'Filter usage',
+      state_topic: `${topic}/state`,
+      value_template: '{{ value_json.filterusage }}',
+      unit_of_measurement: '%',
+      icon: 'mdi:air-filter',
+    });
+  }
+
+  private publish(topic: string, message: string): void {
+    this.mqtt.publish(topic, message, { retain: true, qos: 1 });
+  }
+}
+
+/**
+ * Parses an ON/OFF payload.
+ * @param command - The command, for the error message.
+ * @param value - The payload.
+ * @returns True for ON.
+ * @throws {BlueAirValidationError} - If the payload is neither ON nor OFF.
+ */
+function parseSwitch(command: string, value: string): boolean {
+  if (value.toUpperCase() === 'ON') {
+    return true;
+  }
+  if (value.toUpperCase() === 'OFF') {
+    return false;
+  }
+  throw new BlueAirValidationError(
+    `${command} expects ON or OFF, got ${value}`,
+  );
+}
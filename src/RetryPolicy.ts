@@ -0,0 +1,132 @@
+import axios from 'axios';
+import {
+  BlueAirError,
+  BlueAirHttpError,
+  BlueAirTimeoutError,
+  hasErrorName,
+} from './Errors';
+
+/**
+ * Controls how failed requests are retried.
+ */
+export type RetryPolicy = {
+  // Total number of attempts, including the first one.
+  maxAttempts: number;
+  // Delay before the first retry in milliseconds, doubled on every further retry.
+  baseDelay: number;
+  // Upper bound for a single delay in milliseconds.
+  maxDelay: number;
+  // Random spread applied to each delay, as a fraction between 0 and 1.
+  jitter: number;
+  // HTTP statuses worth retrying, or a predicate deciding per status.
+  retryableStatuses: number[] | ((status: number) => boolean);
+  // Wait as long as the server asks for in a Retry-After header, up to maxDelay.
+  respectRetryAfter: boolean;
+};
+
+/**
+ * Default policy: 4 attempts with exponential backoff from 500ms to 10s,
+ * retrying timeouts, network failures, throttling and server errors.
+ */
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelay: 500,
+  maxDelay: 10 * 1000,
+  jitter: 0.2,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+/**
+ * Completes a partial policy with the defaults.
+ * @param overrides - The settings to change.
+ * @returns The complete policy.
+ */
+export function resolveRetryPolicy(
+  overrides: Partial<RetryPolicy> = {},
+): RetryPolicy {
+  return { ...defaultRetryPolicy, ...overrides };
+}
+
+/**
+ * Decides whether an error is worth retrying. Timeouts, network failures and
+ * retryable statuses are; authentication, validation and region errors are not.
+ * @param error - The error thrown by the attempt.
+ * @param policy - The policy in effect.
+ * @returns True if the operation should be retried.
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof BlueAirHttpError) {
+    return typeof policy.retryableStatuses === 'function'
+      ? policy.retryableStatuses(error.status)
+      : policy.retryableStatuses.includes(error.status);
+  }
+
+  if (error instanceof BlueAirTimeoutError) {
+    return true;
+  }
+
+  // A request that never got a response, e.g. a DNS failure or a reset connection.
+  // fetch reports these as a TypeError.
+  const cause = error instanceof BlueAirError ? error.cause : error;
+  if (axios.isAxiosError(cause)) {
+    return !cause.response;
+  }
+  return hasErrorName(cause, ['TypeError']);
+}
+
+/**
+ * Computes the delay before the next attempt.
+ * @param attempt - The attempt that just failed, starting at 1.
+ * @param policy - The policy in effect.
+ * @param error - The error of the failed attempt, consulted for Retry-After.
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  error?: unknown,
+): number {
+  if (
+    policy.respectRetryAfter &&
+    error instanceof BlueAirHttpError &&
+    error.retryAfter !== undefined
+  ) {
+    return Math.min(error.retryAfter, policy.maxDelay);
+  }
+
+  const delay = Math.min(
+    policy.baseDelay * Math.pow(2, attempt - 1),
+    policy.maxDelay,
+  );
+  const spread = delay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + spread));
+}
+
+/**
+ * Runs an operation, retrying it according to the policy.
+ * @param fn - The operation, receiving the current attempt number starting at 1.
+ * @param policy - The policy in effect.
+ * @param onRetry - Called before waiting for the next attempt.
+ * @returns The result of the first successful attempt.
+ * @throws The error of the last attempt, or the first error that is not retryable.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: unknown, attempt: number, delay: number) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy, error);
+      onRetry?.(error, attempt, delay);
+      await new Promise((res) => setTimeout(res, delay));
+    }
+  }
+}
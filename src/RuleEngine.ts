@@ -0,0 +1,401 @@
+import { EventEmitter } from 'events';
+import type { ApplyStateResult, BlueAirAwsClient } from './BlueAirAwsClient';
+import {
+  BlueAirDeviceSensorData,
+  BlueAirDeviceState,
+  BlueAirDeviceStatus,
+} from './Consts';
+import { DevicePoller } from './DevicePoller';
+import { validateStateChanges, WritableDeviceState } from './DeviceStateSchema';
+import { BlueAirValidationError } from './Errors';
+import { Logger, noopLogger } from './Logger';
+
+/**
+ * What the rule engine needs from the client.
+ */
+export type RuleEngineSource = Pick<BlueAirAwsClient, 'applyState'>;
+
+/**
+ * A comparison of one sensor reading or state of a device. Every comparison given
+ * must hold; a value the device has not reported never matches.
+ */
+export type RuleCondition = {
+  // The device whose value is compared; it need not be a device the rule acts on.
+  uuid: string;
+  // Either a sensor or a state.
+  sensor?: keyof BlueAirDeviceSensorData;
+  state?: keyof BlueAirDeviceState;
+  // Exclusive bounds for numbers.
+  above?: number;
+  below?: number;
+  equals?: number | boolean | string;
+};
+
+/**
+ * States to apply to a device.
+ */
+export type RuleAction = {
+  uuid: string;
+  state: Partial<WritableDeviceState>;
+};
+
+/**
+ * Activates when its conditions hold and deactivates when its `until` conditions hold,
+ * so the two can be far apart to avoid flapping.
+ */
+export type Rule = {
+  id: string;
+  // Conditions that activate the rule, all of them by default.
+  conditions: RuleCondition[];
+  match?: 'all' | 'any';
+  // Conditions that deactivate an active rule, all of them. Defaults to the
+  // activating conditions no longer holding.
+  until?: RuleCondition[];
+  // How long the conditions must hold before the rule activates, in milliseconds.
+  activateAfter?: number;
+  // How long the deactivating conditions must hold before the rule deactivates, in milliseconds.
+  deactivateAfter?: number;
+  // Applied when the rule activates.
+  actions: RuleAction[];
+  // Applied when the rule deactivates.
+  revert?: RuleAction[];
+  // Disabled rules are kept but not evaluated. Defaults to true.
+  enabled?: boolean;
+};
+
+/**
+ * Where a rule stands.
+ */
+export type RuleState = {
+  active: boolean;
+  // Since when the conditions to switch have held, in epoch milliseconds.
+  pendingSince: number | null;
+  // Time the rule last switched, in epoch milliseconds.
+  changedAt: number | null;
+};
+
+export type RuleEngineOptions = {
+  // Log and report actions without applying them. Defaults to false.
+  dryRun?: boolean;
+};
+
+/**
+ * The outcome of an action.
+ */
+export type RuleActionResult = {
+  uuid: string;
+  // Set unless the states could not be applied at all.
+  result?: ApplyStateResult;
+  error?: unknown;
+};
+
+/**
+ * A rule switching on or off.
+ */
+export type RuleTransition = {
+  id: string;
+  timestamp: number;
+  // The actions taken, or that would have been taken in dry-run mode.
+  actions: RuleAction[];
+  // Empty in dry-run mode.
+  results: RuleActionResult[];
+  dryRun: boolean;
+};
+
+export type RuleEngineEvents = {
+  activate: RuleTransition;
+  deactivate: RuleTransition;
+  // Evaluating a batch of statuses failed.
+  error: { error: unknown };
+};
+
+export interface RuleEngine {
+  on<K extends keyof RuleEngineEvents>(
+    event: K,
+    listener: (payload: RuleEngineEvents[K]) => void,
+  ): this;
+  once<K extends keyof RuleEngineEvents>(
+    event: K,
+    listener: (payload: RuleEngineEvents[K]) => void,
+  ): this;
+  off<K extends keyof RuleEngineEvents>(
+    event: K,
+    listener: (payload: RuleEngineEvents[K]) => void,
+  ): this;
+  emit<K extends keyof RuleEngineEvents>(
+    event: K,
+    payload: RuleEngineEvents[K],
+  ): boolean;
+}
+
+/**
+ * Evaluates rules over device statuses and applies their actions through applyState.
+ * Conditions are checked against the latest status of every device seen, so a sensor
+ * in one room can drive a purifier in another. Dwell times are measured between the
+ * timestamps of the evaluated statuses, so their precision is the polling interval.
+ */
+export class RuleEngine extends EventEmitter {
+  private rules = new Map<string, { rule: Rule; state: RuleState }>();
+  private statuses = new Map<string, BlueAirDeviceStatus>();
+  private evaluating: Promise<void> = Promise.resolve();
+
+  /**
+   * @param client - The client used to apply the actions.
+   * @param options - Dry-run mode.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    private readonly client: RuleEngineSource,
+    private readonly options: RuleEngineOptions = {},
+    private readonly logger: Logger = noopLogger,
+  ) {
+    super();
+  }
+
+  /**
+   * Adds a rule, or replaces the rule with the same id. A replaced rule starts inactive.
+   * @param rule - The rule.
+   * @throws {BlueAirValidationError} - If a condition or action is invalid.
+   */
+  public addRule(rule: Rule): void {
+    validateRule(rule);
+    this.rules.set(rule.id, {
+      rule,
+      state: { active: false, pendingSince: null, changedAt: null },
+    });
+  }
+
+  /**
+   * Removes a rule without reverting its actions.
+   * @param id - The rule id.
+   * @returns {boolean} - False if there was no such rule.
+   */
+  public removeRule(id: string): boolean {
+    return this.rules.delete(id);
+  }
+
+  /**
+   * Returns the rules.
+   * @returns {Rule[]} - The rules.
+   */
+  public getRules(): Rule[] {
+    return Array.from(this.rules.values()).map(({ rule }) => rule);
+  }
+
+  /**
+   * Returns where a rule stands.
+   * @param id - The rule id.
+   * @returns {RuleState | undefined} - The state, or undefined for unknown rules.
+   */
+  public getRuleState(id: string): RuleState | undefined {
+    const entry = this.rules.get(id);
+    return entry ? { ...entry.state } : undefined;
+  }
+
+  /**
+   * Evaluates the rules against a status read, taking the actions of the rules that
+   * switch. Evaluations never overlap.
+   * @param statuses - The result of getDeviceStatus.
+   * @param timestamp - Time of the read, in epoch milliseconds.
+   * @returns {Promise<RuleTransition[]>} - The rules that switched.
+   */
+  public evaluate(
+    statuses: BlueAirDeviceStatus[],
+    timestamp = Date.now(),
+  ): Promise<RuleTransition[]> {
+    const evaluation = this.evaluating.then(() =>
+      this.evaluateNow(statuses, timestamp),
+    );
+    this.evaluating = evaluation.then(
+      () => undefined,
+      () => undefined,
+    );
+    return evaluation;
+  }
+
+  /**
+   * Evaluates every poll of a poller until the returned function is called.
+   * @param poller - The poller.
+   * @returns {() => void} - A function that stops evaluating.
+   */
+  public track(poller: DevicePoller): () => void {
+    const listener = ({
+      statuses,
+      timestamp,
+    }: {
+      statuses: BlueAirDeviceStatus[];
+      timestamp: number;
+    }) => {
+      this.evaluate(statuses, timestamp).catch((error) => {
+        this.logger.warn('Evaluating rules failed', { error });
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', { error });
+        }
+      });
+    };
+    poller.on('poll', listener);
+    return () => {
+      poller.off('poll', listener);
+    };
+  }
+
+  private async evaluateNow(
+    statuses: BlueAirDeviceStatus[],
+    timestamp: number,
+  ): Promise<RuleTransition[]> {
+    for (const status of statuses) {
+      this.statuses.set(status.id, status);
+    }
+
+    const transitions: RuleTransition[] = [];
+    for (const { rule, state } of this.rules.values()) {
+      if (rule.enabled === false) {
+        continue;
+      }
+
+      const switching = state.active
+        ? rule.until
+          ? this.matches(rule.until, 'all')
+          : !this.matches(rule.conditions, rule.match)
+        : this.matches(rule.conditions, rule.match);
+      if (!switching) {
+        state.pendingSince = null;
+        continue;
+      }
+
+      state.pendingSince = state.pendingSince ?? timestamp;
+      const dwell = state.active ? rule.deactivateAfter : rule.activateAfter;
+      if (timestamp - state.pendingSince < (dwell ?? 0)) {
+        continue;
+      }
+
+      state.active = !state.active;
+      state.pendingSince = null;
+      state.changedAt = timestamp;
+      const transition = await this.act(
+        rule.id,
+        state.active ? rule.actions : (rule.revert ?? []),
+        timestamp,
+      );
+      transitions.push(transition);
+      this.emit(state.active ? 'activate' : 'deactivate', transition);
+    }
+    return transitions;
+  }
+
+  private matches(
+    conditions: RuleCondition[],
+    match: Rule['match'] = 'all',
+  ): boolean {
+    const check = (condition: RuleCondition) =>
+      matchesCondition(condition, this.statuses.get(condition.uuid));
+    return match === 'any' ? conditions.some(check) : conditions.every(check);
+  }
+
+  private async act(
+    id: string,
+    actions: RuleAction[],
+    timestamp: number,
+  ): Promise<RuleTransition> {
+    const dryRun = this.options.dryRun === true;
+    const results: RuleActionResult[] = [];
+
+    for (const action of actions) {
+      if (dryRun) {
+        this.logger.info('Rule would apply state', { id, ...action });
+        continue;
+      }
+      this.logger.info('Rule applying state', { id, ...action });
+      try {
+        results.push({
+          uuid: action.uuid,
+          result: await this.client.applyState(action.uuid, action.state),
+        });
+      } catch (error) {
+        this.logger.warn('Rule action failed', {
+          id,
+          uuid: action.uuid,
+          error,
+        });
+        results.push({ uuid: action.uuid, error });
+      }
+    }
+    return { id, timestamp, actions, results, dryRun };
+  }
+}
+
+function matchesCondition(
+  condition: RuleCondition,
+  status: BlueAirDeviceStatus | undefined,
+): boolean {
+  const value = condition.sensor
+    ? status?.sensorData[condition.sensor]
+    : status?.state[condition.state as keyof BlueAirDeviceState];
+  if (value === undefined) {
+    return false;
+  }
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (
+    condition.above !== undefined &&
+    !(typeof value === 'number' && value > condition.above)
+  ) {
+    return false;
+  }
+  if (
+    condition.below !== undefined &&
+    !(typeof value === 'number' && value < condition.below)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function validateRule(rule: Rule): void {
+  if (typeof rule.id !== 'string' || rule.id.trim() === '') {
+    throw new BlueAirValidationError('Invalid or missing rule id');
+  }
+  const invalid = (reason: string) =>
+    new BlueAirValidationError(`Invalid rule ${rule.id}: ${reason}`);
+
+  if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+    throw invalid('at least one condition is needed');
+  }
+  for (const condition of [...rule.conditions, ...(rule.until ?? [])]) {
+    if (typeof condition.uuid !== 'string' || condition.uuid === '') {
+      throw invalid('every condition needs a device uuid');
+    }
+    if ((condition.sensor === undefined) === (condition.state === undefined)) {
+      throw invalid('every condition needs either a sensor or a state');
+    }
+    if (
+      condition.above === undefined &&
+      condition.below === undefined &&
+      condition.equals === undefined
+    ) {
+      throw invalid(
+        `${condition.sensor ?? condition.state} needs above, below or equals`,
+      );
+    }
+    for (const bound of [condition.above, condition.below]) {
+      if (bound !== undefined && (typeof bound !== 'number' || isNaN(bound))) {
+        throw invalid('above and below must be numbers');
+      }
+    }
+  }
+  if (!Array.isArray(rule.actions)) {
+    throw invalid('actions must be a list');
+  }
+  for (const dwell of [rule.activateAfter, rule.deactivateAfter]) {
+    if (dwell !== undefined && !(dwell >= 0)) {
+      throw invalid('dwell times must not be negative');
+    }
+  }
+  for (const action of [...rule.actions, ...(rule.revert ?? [])]) {
+    if (typeof action.uuid !== 'string' || action.uuid === '') {
+      throw invalid('every action needs a device uuid');
+    }
+    validateStateChanges(action.state);
+  }
+}
@@ -0,0 +1,397 @@
+import { promises as fs } from 'fs';
+import { writeJsonFile } from './AtomicFile';
+import type { ApplyStateResult, BlueAirAwsClient } from './BlueAirAwsClient';
+import { BlueAirDeviceState } from './Consts';
+import {
+  STATE_SCHEMA,
+  validateStateChanges,
+  WritableDeviceState,
+} from './DeviceStateSchema';
+import { BlueAirError, BlueAirValidationError } from './Errors';
+import { Logger, noopLogger } from './Logger';
+
+/**
+ * What the scene manager needs from the client.
+ */
+export type SceneManagerSource = Pick<
+  BlueAirAwsClient,
+  'getDeviceStatus' | 'applyState'
+>;
+
+/**
+ * The states of a set of devices, to apply together.
+ */
+export type Scene = {
+  name: string;
+  // The states of every device, by uuid.
+  devices: { [uuid: string]: Partial<WritableDeviceState> };
+  // Time the scene was captured or defined, in epoch milliseconds.
+  createdAt: number;
+};
+
+/**
+ * Storage backend for scenes.
+ */
+export interface SceneStore {
+  load(): Promise<Scene[]>;
+  save(scenes: Scene[]): Promise<void>;
+}
+
+/**
+ * Keeps scenes in memory only.
+ */
+export class MemorySceneStore implements SceneStore {
+  private scenes: Scene[] = [];
+
+  public async load(): Promise<Scene[]> {
+    return this.scenes.map(copyScene);
+  }
+
+  public async save(scenes: Scene[]): Promise<void> {
+    this.scenes = scenes.map(copyScene);
+  }
+}
+
+/**
+ * Persists scenes to a JSON file on disk.
+ */
+export class FileSceneStore implements SceneStore {
+  /**
+   * @param filePath - Path to the JSON file. Parent directories are created on save.
+   */
+  constructor(private readonly filePath: string) {}
+
+  public async load(): Promise<Scene[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      // A missing file simply means there are no scenes yet.
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const scenes = JSON.parse(contents);
+    return Array.isArray(scenes) ? scenes : [];
+  }
+
+  public async save(scenes: Scene[]): Promise<void> {
+    await writeJsonFile(this.filePath, scenes);
+  }
+}
+
+export type SceneManagerOptions = {
+  // Where scenes are kept. Defaults to memory.
+  store?: SceneStore;
+};
+
+/**
+ * The outcome of a scene on one device.
+ */
+export type SceneDeviceResult = {
+  uuid: string;
+  // Set unless the states could not be applied at all.
+  result?: ApplyStateResult;
+  error?: unknown;
+};
+
+/**
+ * The outcome of applying a scene. success is false if any device failed.
+ */
+export type SceneResult = {
+  name: string;
+  success: boolean;
+  devices: SceneDeviceResult[];
+};
+
+/**
+ * A temporary change of devices that restores their previous states.
+ */
+export type SceneOverride = {
+  // The states before the override.
+  snapshot: Scene;
+  // The outcome of the override itself.
+  applied: SceneResult;
+  // Resolves with the outcome of the restore, or null if the override was cancelled.
+  restored: Promise<SceneResult | null>;
+  // Restores right away instead of when the duration ends.
+  restore(): Promise<SceneResult | null>;
+  // Keeps the override in place and never restores.
+  cancel(): void;
+};
+
+/**
+ * Captures the states of devices into named scenes and applies them again later.
+ * Only writable states are captured, and they are applied through applyState.
+ */
+export class SceneManager {
+  private scenes = new Map<string, Scene>();
+  private loading: Promise<void> | null = null;
+  private readonly store: SceneStore;
+
+  /**
+   * @param client - The client used to read and apply states.
+   * @param accountuuid - The main account uuid.
+   * @param options - Where scenes are kept.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    private readonly client: SceneManagerSource,
+    public readonly accountuuid: string,
+    options: SceneManagerOptions = {},
+    private readonly logger: Logger = noopLogger,
+  ) {
+    this.store = options.store ?? new MemorySceneStore();
+  }
+
+  /**
+   * Reads the current states of devices without keeping them as a scene.
+   * @param uuids - The devices.
+   * @param name - Name of the snapshot.
+   * @returns {Promise<Scene>} - The snapshot.
+   * @throws {BlueAirError} - If a device reported no status.
+   */
+  public async snapshot(uuids: string[], name = 'snapshot'): Promise<Scene> {
+    const statuses = await this.client.getDeviceStatus(this.accountuuid, uuids);
+    const devices: Scene['devices'] = {};
+
+    for (const uuid of uuids) {
+      const status = statuses.find((status) => status.id === uuid);
+      if (!status) {
+        throw new BlueAirError(`Device ${uuid} reported no status`);
+      }
+      devices[uuid] = writableStates(status.state);
+    }
+    return { name, devices, createdAt: Date.now() };
+  }
+
+  /**
+   * Captures the current states of devices as a scene, replacing a scene with the same name.
+   * @param name - The scene name.
+   * @param uuids - The devices.
+   * @returns {Promise<Scene>} - The scene.
+   */
+  public async capture(name: string, uuids: string[]): Promise<Scene> {
+    assertSceneName(name);
+    const scene = await this.snapshot(uuids, name);
+    await this.keep(scene);
+    this.logger.info('Captured scene', { name, uuids });
+    return copyScene(scene);
+  }
+
+  /**
+   * Defines a scene from given states, replacing a scene with the same name.
+   * @param name - The scene name.
+   * @param devices - The states of every device, by uuid.
+   * @returns {Promise<Scene>} - The scene.
+   * @throws {BlueAirValidationError} - If a state is invalid.
+   */
+  public async define(name: string, devices: Scene['devices']): Promise<Scene> {
+    assertSceneName(name);
+    for (const state of Object.values(devices)) {
+      validateStateChanges(state);
+    }
+    const scene = copyScene({ name, devices, createdAt: Date.now() });
+    await this.keep(scene);
+    return copyScene(scene);
+  }
+
+  /**
+   * Applies a kept scene.
+   * @param name - The scene name.
+   * @returns {Promise<SceneResult>} - The outcome on every device.
+   * @throws {BlueAirValidationError} - If there is no such scene.
+   */
+  public async apply(name: string): Promise<SceneResult> {
+    const scene = await this.getScene(name);
+    if (!scene) {
+      throw new BlueAirValidationError(`Unknown scene ${name}`);
+    }
+    return this.restore(scene);
+  }
+
+  /**
+   * Applies a scene or snapshot, whether kept or not. A failing device does not stop
+   * the others.
+   * @param scene - The scene.
+   * @returns {Promise<SceneResult>} - The outcome on every device.
+   */
+  public async restore(scene: Scene): Promise<SceneResult> {
+    this.logger.info('Applying scene', { name: scene.name });
+    const devices: SceneDeviceResult[] = [];
+
+    for (const [uuid, state] of Object.entries(scene.devices)) {
+      if (Object.keys(state).length === 0) {
+        continue;
+      }
+      try {
+        devices.push({
+          uuid,
+          result: await this.client.applyState(uuid, state),
+        });
+      } catch (error) {
+        this.logger.warn('Applying scene failed on device', {
+          name: scene.name,
+          uuid,
+          error,
+        });
+        devices.push({ uuid, error });
+      }
+    }
+
+    return {
+      name: scene.name,
+      success: devices.every(({ result }) => result?.success === true),
+      devices,
+    };
+  }
+
+  /**
+   * Snapshots devices, applies states to all of them and restores the snapshot when
+   * the duration ends, e.g. to boost all purifiers for 30 minutes.
+   * @param uuids - The devices.
+   * @param state - The states to apply.
+   * @param duration - Time until the restore, in milliseconds.
+   * @returns {Promise<SceneOverride>} - The override, once applied.
+   * @throws {BlueAirValidationError} - If a state is invalid; nothing is written then.
+   */
+  public async override(
+    uuids: string[],
+    state: Partial<WritableDeviceState>,
+    duration: number,
+  ): Promise<SceneOverride> {
+    validateStateChanges(state);
+    if (!(duration >= 0)) {
+      throw new BlueAirValidationError('Duration must not be negative');
+    }
+
+    const snapshot = await this.snapshot(uuids, 'override');
+    const applied = await this.restore({
+      name: 'override',
+      devices: Object.fromEntries(uuids.map((uuid) => [uuid, { ...state }])),
+      createdAt: Date.now(),
+    });
+
+    let settle: (result: SceneResult | null) => void = () => undefined;
+    const restored = new Promise<SceneResult | null>((resolve) => {
+      settle = resolve;
+    });
+    let restoring: Promise<SceneResult | null> | null = null;
+
+    const restore = () => {
+      if (!restoring) {
+        clearTimeout(timer);
+        restoring = this.restore(snapshot);
+        restoring.then(settle);
+      }
+      return restoring;
+    };
+    const timer = setTimeout(() => {
+      void restore();
+    }, duration);
+
+    return {
+      snapshot,
+      applied,
+      restored,
+      restore,
+      cancel: () => {
+        if (!restoring) {
+          clearTimeout(timer);
+          restoring = Promise.resolve(null);
+          settle(null);
+        }
+      },
+    };
+  }
+
+  /**
+   * Returns a kept scene.
+   * @param name - The scene name.
+   * @returns {Promise<Scene | undefined>} - The scene, or undefined if there is none.
+   */
+  public async getScene(name: string): Promise<Scene | undefined> {
+    await this.load();
+    const scene = this.scenes.get(name);
+    return scene ? copyScene(scene) : undefined;
+  }
+
+  /**
+   * Returns the kept scenes.
+   * @returns {Promise<Scene[]>} - The scenes.
+   */
+  public async listScenes(): Promise<Scene[]> {
+    await this.load();
+    return Array.from(this.scenes.values()).map(copyScene);
+  }
+
+  /**
+   * Deletes a kept scene.
+   * @param name - The scene name.
+   * @returns {Promise<boolean>} - False if there was no such scene.
+   */
+  public async deleteScene(name: string): Promise<boolean> {
+    await this.load();
+    if (!this.scenes.delete(name)) {
+      return false;
+    }
+    await this.store.save(Array.from(this.scenes.values()));
+    return true;
+  }
+
+  private async keep(scene: Scene): Promise<void> {
+    await this.load();
+    this.scenes.set(scene.name, scene);
+    await this.store.save(Array.from(this.scenes.values()));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.load().then(
+        (scenes) => {
+          for (const scene of scenes) {
+            this.scenes.set(scene.name, scene);
+          }
+        },
+        (error) => {
+          this.loading = null;
+          throw error;
+        },
+      );
+    }
+    return this.loading;
+  }
+}
+
+function writableStates(
+  state: BlueAirDeviceState,
+): Partial<WritableDeviceState> {
+  const writable: Partial<WritableDeviceState> = {};
+  for (const field of Object.keys(
+    STATE_SCHEMA,
+  ) as (keyof WritableDeviceState)[]) {
+    if (state[field] !== undefined) {
+      Object.assign(writable, { [field]: state[field] });
+    }
+  }
+  return writable;
+}
+
+function assertSceneName(name: string): void {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new BlueAirValidationError('Invalid or missing scene name');
+  }
+}
+
+function copyScene(scene: Scene): Scene {
+  return {
+    ...scene,
+    devices: Object.fromEntries(
+      Object.entries(scene.devices).map(([uuid, state]) => [
+        uuid,
+        { ...state },
+      ]),
+    ),
+  };
+}
@@ -0,0 +1,748 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { writeJsonFile } from './AtomicFile';
+import type { ApplyStateResult, BlueAirAwsClient } from './BlueAirAwsClient';
+import { validateStateChanges, WritableDeviceState } from './DeviceStateSchema';
+import { BlueAirValidationError } from './Errors';
+import { Logger, noopLogger } from './Logger';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Longest delay setTimeout accepts
+const MAX_TIMER_DELAY = 2147483647;
+
+// Days searched for the next run; long enough for a 29 February on a given weekday
+const MAX_SEARCH_DAYS = 28 * 366;
+
+// Missed runs reported per routine after downtime
+const MAX_MISSED_RUNS = 100;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * What the scheduler needs from the client.
+ */
+export type SchedulerSource = Pick<BlueAirAwsClient, 'applyState'>;
+
+/**
+ * A recurring change of device states.
+ */
+export type Routine = {
+  // Identifies the routine; adding a routine with a known id replaces it.
+  id: string;
+  name?: string;
+  // The devices the states are applied to.
+  uuids: string[];
+  // When the routine runs: a cron expression with five fields (`30 22 * * *`),
+  // or optional weekdays and a time (`22:30`, `mon-fri 07:00`, `weekends 09:15`).
+  when: string;
+  // IANA time zone of `when`. Defaults to the time zone of the scheduler.
+  timezone?: string;
+  // The states to apply, as for applyState.
+  state: Partial<WritableDeviceState>;
+  // Disabled routines are kept but do not run. Defaults to true.
+  enabled?: boolean;
+};
+
+/**
+ * A routine as kept by the scheduler.
+ */
+export type StoredRoutine = Routine & {
+  // Time up to which runs were handled, in epoch milliseconds. Maintained by the scheduler.
+  checkedAt?: number;
+};
+
+/**
+ * Storage backend for routines.
+ */
+export interface ScheduleStore {
+  load(): Promise<StoredRoutine[]>;
+  save(routines: StoredRoutine[]): Promise<void>;
+}
+
+/**
+ * Keeps routines in memory only.
+ */
+export class MemoryScheduleStore implements ScheduleStore {
+  private routines: StoredRoutine[] = [];
+
+  public async load(): Promise<StoredRoutine[]> {
+    return this.routines.map((routine) => ({ ...routine }));
+  }
+
+  public async save(routines: StoredRoutine[]): Promise<void> {
+    this.routines = routines.map((routine) => ({ ...routine }));
+  }
+}
+
+/**
+ * Persists routines to a JSON file on disk.
+ */
+export class FileScheduleStore implements ScheduleStore {
+  /**
+   * @param filePath - Path to the JSON file. Parent directories are created on save.
+   */
+  constructor(private readonly filePath: string) {}
+
+  public async load(): Promise<StoredRoutine[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      // A missing file simply means there are no routines yet.
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const routines = JSON.parse(contents);
+    return Array.isArray(routines) ? routines : [];
+  }
+
+  public async save(routines: StoredRoutine[]): Promise<void> {
+    await writeJsonFile(this.filePath, routines);
+  }
+}
+
+/**
+ * Time source of the scheduler. Replace it with a fake clock in tests.
+ */
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+export type SchedulerOptions = {
+  // Where routines are kept. Defaults to memory.
+  store?: ScheduleStore;
+  // Time zone of routines without their own. Defaults to the system time zone.
+  timezone?: string;
+  // A run this late or later counts as missed, in milliseconds. Defaults to one minute.
+  grace?: number;
+  // Whether to apply the latest missed run of a routine after downtime. Defaults to false.
+  catchUp?: boolean;
+  clock?: SchedulerClock;
+};
+
+/**
+ * The outcome of a routine on one device.
+ */
+export type RoutineDeviceResult = {
+  uuid: string;
+  // Set unless the states could not be applied at all.
+  result?: ApplyStateResult;
+  error?: unknown;
+};
+
+export type SchedulerEvents = {
+  // A routine was applied. success is false if any device failed.
+  run: {
+    id: string;
+    scheduledAt: number;
+    success: boolean;
+    results: RoutineDeviceResult[];
+  };
+  // Runs of a routine that were missed, e.g. while the process was down. Oldest first.
+  missed: { id: string; missedAt: number[]; caughtUp: boolean };
+  // Loading or saving the routines failed.
+  error: { error: unknown };
+};
+
+export interface Scheduler {
+  on<K extends keyof SchedulerEvents>(
+    event: K,
+    listener: (payload: SchedulerEvents[K]) => void,
+  ): this;
+  once<K extends keyof SchedulerEvents>(
+    event: K,
+    listener: (payload: SchedulerEvents[K]) => void,
+  ): this;
+  off<K extends keyof SchedulerEvents>(
+    event: K,
+    listener: (payload: SchedulerEvents[K]) => void,
+  ): this;
+  emit<K extends keyof SchedulerEvents>(
+    event: K,
+    payload: SchedulerEvents[K],
+  ): boolean;
+}
+
+/**
+ * Applies routines to devices at recurring local times. Runs follow the wall clock of
+ * the routine's time zone: a time skipped by a daylight saving change runs shifted
+ * forward by the change, so 02:30 runs at 03:30 when clocks skip from 02:00 to 03:00,
+ * and a time that occurs twice runs once, at its first occurrence.
+ */
+export class Scheduler extends EventEmitter {
+  private routines = new Map<string, StoredRoutine>();
+  private loading: Promise<void> | null = null;
+  private ticking: Promise<void> = Promise.resolve();
+  private timer: unknown = null;
+  private running = false;
+  private readonly store: ScheduleStore;
+  private readonly timezone: string;
+  private readonly grace: number;
+  private readonly clock: SchedulerClock;
+
+  /**
+   * @param client - The client used to apply the states.
+   * @param options - Store, time zone, missed run handling and clock.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    private readonly client: SchedulerSource,
+    private readonly options: SchedulerOptions = {},
+    private readonly logger: Logger = noopLogger,
+  ) {
+    super();
+    this.store = options.store ?? new MemoryScheduleStore();
+    this.timezone =
+      options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    this.grace = options.grace ?? MINUTE;
+    this.clock = options.clock ?? systemClock;
+    assertTimeZone(this.timezone);
+  }
+
+  /**
+   * Loads the routines, reports the runs missed since they were last checked and
+   * starts running them.
+   * @returns {Promise<void>} - Resolves when the missed runs were handled.
+   */
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    await this.load();
+    this.running = true;
+    await this.tick();
+  }
+
+  /**
+   * Stops running routines. Runs due meanwhile are reported as missed on the next start.
+   */
+  public stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Adds a routine, or replaces the routine with the same id.
+   * @param routine - The routine.
+   * @returns {Promise<StoredRoutine>} - The routine as kept.
+   * @throws {BlueAirValidationError} - If the schedule, time zone, devices or states are invalid.
+   */
+  public async addRoutine(routine: Routine): Promise<StoredRoutine> {
+    this.validateRoutine(routine);
+    await this.load();
+
+    // Runs before now are not missed runs of a new routine
+    const stored: StoredRoutine = { ...routine, checkedAt: this.clock.now() };
+    this.routines.set(routine.id, stored);
+    await this.save();
+    this.schedule();
+    return { ...stored };
+  }
+
+  /**
+   * Removes a routine.
+   * @param id - The routine id.
+   * @returns {Promise<boolean>} - False if there was no such routine.
+   */
+  public async removeRoutine(id: string): Promise<boolean> {
+    await this.load();
+    if (!this.routines.delete(id)) {
+      return false;
+    }
+    await this.save();
+    this.schedule();
+    return true;
+  }
+
+  /**
+   * Returns the routines, once loaded.
+   * @returns {StoredRoutine[]} - The routines.
+   */
+  public getRoutines(): StoredRoutine[] {
+    return Array.from(this.routines.values()).map((routine) => ({
+      ...routine,
+    }));
+  }
+
+  /**
+   * Returns when a routine runs next.
+   * @param id - The routine id.
+   * @param after - The time to look from, in epoch milliseconds.
+   * @returns {number | null} - The time of the next run, or null for unknown or disabled routines.
+   */
+  public nextRun(id: string, after = this.clock.now()): number | null {
+    const routine = this.routines.get(id);
+    if (!routine || routine.enabled === false) {
+      return null;
+    }
+    return nextScheduledRun(
+      routine.when,
+      after,
+      routine.timezone ?? this.timezone,
+    );
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.load().then(
+        (routines) => {
+          for (const routine of routines) {
+            this.routines.set(routine.id, routine);
+          }
+        },
+        (error) => {
+          this.loading = null;
+          throw error;
+        },
+      );
+    }
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    await this.store.save(this.getRoutines());
+  }
+
+  private validateRoutine(routine: Routine): void {
+    if (typeof routine.id !== 'string' || routine.id.trim() === '') {
+      throw new BlueAirValidationError('Invalid or missing routine id');
+    }
+    if (
+      !Array.isArray(routine.uuids) ||
+      routine.uuids.length === 0 ||
+      routine.uuids.some((uuid) => typeof uuid !== 'string' || uuid === '')
+    ) {
+      throw new BlueAirValidationError(
+        `Routine ${routine.id} needs at least one device uuid`,
+      );
+    }
+    validateStateChanges(routine.state);
+    const timezone = routine.timezone ?? this.timezone;
+    assertTimeZone(timezone);
+    if (nextScheduledRun(routine.when, this.clock.now(), timezone) === null) {
+      throw new BlueAirValidationError(`Schedule "${routine.when}" never runs`);
+    }
+  }
+
+  /**
+   * Handles the due runs of all routines and arms the timer. Ticks never overlap.
+   */
+  private tick(): Promise<void> {
+    this.ticking = this.ticking.then(async () => {
+      try {
+        await this.runDue();
+      } catch (error) {
+        this.logger.error('Running routines failed', { error });
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', { error });
+        }
+      }
+      this.schedule();
+    });
+    return this.ticking;
+  }
+
+  private async runDue(): Promise<void> {
+    const now = this.clock.now();
+    let changed = false;
+
+    for (const routine of this.routines.values()) {
+      if (routine.enabled === false) {
+        continue;
+      }
+      const runs = this.runsBetween(routine, routine.checkedAt ?? now, now);
+      if (runs.length === 0) {
+        continue;
+      }
+      routine.checkedAt = runs[runs.length - 1];
+      changed = true;
+
+      const latest = runs[runs.length - 1];
+      const onTime = now - latest < this.grace;
+      const missed = onTime ? runs.slice(0, -1) : runs;
+      if (missed.length > 0) {
+        const caughtUp = !onTime && this.options.catchUp === true;
+        this.logger.warn('Missed routine runs', {
+          id: routine.id,
+          count: missed.length,
+        });
+        this.emit('missed', {
+          id: routine.id,
+          missedAt: missed.slice(-MAX_MISSED_RUNS),
+          caughtUp,
+        });
+        if (!onTime && !caughtUp) {
+          continue;
+        }
+      }
+      await this.run(routine, latest);
+    }
+
+    if (changed) {
+      await this.save();
+    }
+  }
+
+  private async run(
+    routine: StoredRoutine,
+    scheduledAt: number,
+  ): Promise<void> {
+    this.logger.info('Running routine', { id: routine.id, scheduledAt });
+    const results: RoutineDeviceResult[] = [];
+    for (const uuid of routine.uuids) {
+      try {
+        results.push({
+          uuid,
+          result: await this.client.applyState(uuid, routine.state),
+        });
+      } catch (error) {
+        this.logger.warn('Routine failed on device', {
+          id: routine.id,
+          uuid,
+          error,
+        });
+        results.push({ uuid, error });
+      }
+    }
+    this.emit('run', {
+      id: routine.id,
+      scheduledAt,
+      success: results.every(({ result }) => result?.success === true),
+      results,
+    });
+  }
+
+  /**
+   * The runs of a routine after `from` up to and including `to`. After long downtime
+   * only the latest runs are returned.
+   */
+  private runsBetween(
+    routine: StoredRoutine,
+    from: number,
+    to: number,
+  ): number[] {
+    const timezone = routine.timezone ?? this.timezone;
+    const schedule = parseSchedule(routine.when);
+    const runs: number[] = [];
+    for (const run of scheduledRuns(schedule, from, timezone)) {
+      if (run > to) {
+        break;
+      }
+      runs.push(run);
+      if (runs.length > MAX_MISSED_RUNS + 1) {
+        runs.shift();
+      }
+    }
+    return runs;
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    if (!this.running) {
+      return;
+    }
+
+    const now = this.clock.now();
+    let next: number | null = null;
+    for (const routine of this.routines.values()) {
+      const run = this.nextRun(routine.id, now);
+      if (run !== null && (next === null || run < next)) {
+        next = run;
+      }
+    }
+    if (next === null) {
+      return;
+    }
+
+    // Long delays are armed in steps; an early tick finds nothing due and re-arms.
+    this.timer = this.clock.setTimeout(
+      () => {
+        this.timer = null;
+        void this.tick();
+      },
+      Math.min(next - now, MAX_TIMER_DELAY),
+    );
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+type ParsedSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  // Days of the month, months and weekdays; null when unrestricted.
+  days: Set<number> | null;
+  months: Set<number> | null;
+  weekdays: Set<number> | null;
+};
+
+/**
+ * Returns the first run of a schedule after a point in time.
+ * @param when - A cron expression with five fields, or optional weekdays and a time.
+ * @param after - The time to look from, in epoch milliseconds. A run at exactly this time is not returned.
+ * @param timezone - IANA time zone of the schedule.
+ * @returns {number | null} - The time of the run, or null if the schedule never runs.
+ * @throws {BlueAirValidationError} - If the schedule or time zone is invalid.
+ */
+export function nextScheduledRun(
+  when: string,
+  after: number,
+  timezone: string,
+): number | null {
+  const next = scheduledRuns(parseSchedule(when), after, timezone).next();
+  return next.done ? null : next.value;
+}
+
+/**
+ * Yields the runs of a parsed schedule after a point in time, in order, scanning
+ * the days once however many runs are taken.
+ */
+function* scheduledRuns(
+  schedule: ParsedSchedule,
+  after: number,
+  timezone: string,
+): Generator<number, void> {
+  const start = wallClock(after, timezone);
+  // Wall clock times more than a few hours before `after` cannot be after it
+  const earliest = start - 3 * 3600 * 1000;
+  const startDay = Math.floor(start / DAY) * DAY;
+  let latest = after;
+
+  for (let day = 0; day < MAX_SEARCH_DAYS; day++) {
+    const date = new Date(startDay + day * DAY);
+    if (!matchesDay(schedule, date)) {
+      continue;
+    }
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const local = date.getTime() + hour * 3600 * 1000 + minute * MINUTE;
+        if (local < earliest) {
+          continue;
+        }
+        const instant = fromWallClock(local, timezone);
+        // Daylight saving time can map later wall clock times to earlier instants
+        if (instant > latest) {
+          latest = instant;
+          yield instant;
+        }
+      }
+    }
+  }
+}
+
+function parseSchedule(when: string): ParsedSchedule {
+  const text = typeof when === 'string' ? when.trim().toLowerCase() : '';
+  const invalid = (reason: string) =>
+    new BlueAirValidationError(`Invalid schedule "${when}": ${reason}`);
+
+  const time = /^(?:(.+)\s+)?(\d{1,2}):(\d{2})$/.exec(text);
+  if (time) {
+    const hour = Number(time[2]);
+    const minute = Number(time[3]);
+    if (hour > 23 || minute > 59) {
+      throw invalid('time must be between 00:00 and 23:59');
+    }
+    return {
+      minutes: new Set([minute]),
+      hours: new Set([hour]),
+      days: null,
+      months: null,
+      weekdays: time[1] ? parseWeekdays(time[1], invalid) : null,
+    };
+  }
+
+  const fields = text.split(/\s+/);
+  if (fields.length !== 5) {
+    throw invalid('expected five cron fields or a time such as 22:30');
+  }
+  const [minutes, hours, days, months, weekdays] = fields;
+  return {
+    minutes: parseCronField(minutes, 0, 59, invalid),
+    hours: parseCronField(hours, 0, 23, invalid),
+    days: days === '*' ? null : parseCronField(days, 1, 31, invalid),
+    months: months === '*' ? null : parseCronField(months, 1, 12, invalid),
+    weekdays:
+      weekdays === '*'
+        ? null
+        : new Set(
+            Array.from(
+              parseCronField(
+                WEEKDAYS.reduce(
+                  (field, name, index) =>
+                    field.replace(new RegExp(name, 'g'), String(index)),
+                  weekdays,
+                ),
+                0,
+                7,
+                invalid,
+              ),
+              // 7 is Sunday too
+              (day) => day % 7,
+            ),
+          ),
+  };
+}
+
+/**
+ * Parses `daily`, `weekdays`, `weekends` or a list of day names and ranges such as `mon-fri,sun`.
+ */
+function parseWeekdays(
+  text: string,
+  invalid: (reason: string) => BlueAirValidationError,
+): Set<number> | null {
+  if (text === 'daily') {
+    return null;
+  }
+  if (text === 'weekdays') {
+    return new Set([1, 2, 3, 4, 5]);
+  }
+  if (text === 'weekends') {
+    return new Set([0, 6]);
+  }
+
+  const days = new Set<number>();
+  for (const part of text.split(/\s*,\s*/)) {
+    const [first, last = first] = part
+      .split('-')
+      .map((name) => WEEKDAYS.indexOf(name.trim().slice(0, 3)));
+    if (first < 0 || last < 0 || part.split('-').length > 2) {
+      throw invalid(`unknown weekday ${part}`);
+    }
+    // Ranges may wrap around the week, e.g. fri-mon
+    for (let day = first; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === last) {
+        break;
+      }
+    }
+  }
+  return days;
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  invalid: (reason: string) => BlueAirValidationError,
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw invalid(`cannot parse ${part}`);
+    }
+    const first = match[1] === '*' ? min : Number(match[2]);
+    const last =
+      match[1] === '*'
+        ? max
+        : Number(match[3] ?? (match[4] !== undefined ? max : first));
+    const step = Number(match[4] ?? 1);
+    if (first < min || last > max || first > last || step < 1) {
+      throw invalid(`${part} is outside ${min}-${max}`);
+    }
+    for (let value = first; value <= last; value += step) {
+      values.add(value);
+    }
+  }
+  return new Set(Array.from(values).sort((a, b) => a - b));
+}
+
+/**
+ * Whether a schedule runs on a day. As in cron, a run on either a restricted day of
+ * the month or a restricted weekday is enough when both are restricted.
+ * @param date - Midnight of the day, as a UTC date.
+ */
+function matchesDay(schedule: ParsedSchedule, date: Date): boolean {
+  if (schedule.months && !schedule.months.has(date.getUTCMonth() + 1)) {
+    return false;
+  }
+  const day = schedule.days?.has(date.getUTCDate());
+  const weekday = schedule.weekdays?.has(date.getUTCDay());
+  if (day === undefined) {
+    return weekday ?? true;
+  }
+  return weekday === undefined ? day : day || weekday;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function assertTimeZone(timezone: string): void {
+  try {
+    formatter(timezone);
+  } catch (error) {
+    throw new BlueAirValidationError(`Unknown time zone ${timezone}`);
+  }
+}
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, format);
+  }
+  return format;
+}
+
+/**
+ * The wall clock time of an instant in a time zone, expressed as if it were UTC.
+ */
+function wallClock(instant: number, timezone: string): number {
+  const parts: { [type: string]: number } = {};
+  for (const { type, value } of formatter(timezone).formatToParts(instant)) {
+    parts[type] = Number(value);
+  }
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+}
+
+/**
+ * The instant a wall clock time occurs in a time zone. A time occurring twice maps to
+ * the first occurrence; a skipped time is shifted forward by the change, so it maps to
+ * the instant as far after the change as the time was after its start.
+ * @param local - The wall clock time, expressed as if it were UTC.
+ */
+function fromWallClock(local: number, timezone: string): number {
+  const before = local - wallClockOffset(local - DAY, timezone);
+  const after = local - wallClockOffset(local + DAY, timezone);
+  const candidates = [before, after]
+    .filter((instant) => wallClock(instant, timezone) === local)
+    .sort((a, b) => a - b);
+  return candidates[0] ?? before;
+}
+
+function wallClockOffset(instant: number, timezone: string): number {
+  const seconds = Math.floor(instant / 1000) * 1000;
+  return wallClock(seconds, timezone) - seconds;
+}
@@ -0,0 +1,476 @@
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import { writeFileAtomic } from './AtomicFile';
+import { BlueAirDeviceSensorData, BlueAirDeviceStatus } from './Consts';
+import { DevicePoller } from './DevicePoller';
+import { BlueAirValidationError } from './Errors';
+import { Logger, noopLogger } from './Logger';
+
+export type SensorName = keyof BlueAirDeviceSensorData;
+
+/**
+ * A single sensor reading of a device.
+ */
+export type SensorReading = {
+  uuid: string;
+  sensor: SensorName;
+  // Time of the reading, in epoch milliseconds.
+  timestamp: number;
+  value: number;
+};
+
+/**
+ * Selects the readings of one sensor of one device.
+ */
+export type HistoryQuery = {
+  uuid: string;
+  sensor: SensorName;
+  // Earliest reading to include, in epoch milliseconds.
+  from?: number;
+  // Readings from this time on are excluded, in epoch milliseconds.
+  to?: number;
+};
+
+/**
+ * Time range of a history query, in epoch milliseconds.
+ */
+export type HistoryRange = Pick<HistoryQuery, 'from' | 'to'>;
+
+/**
+ * Aggregate of the readings within one bucket of time.
+ */
+export type HistoryBucket = {
+  // Start of the bucket, in epoch milliseconds.
+  start: number;
+  // End of the bucket, exclusive.
+  end: number;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+};
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+/**
+ * Storage backend for sensor readings.
+ */
+export interface HistoryStore {
+  append(readings: SensorReading[]): Promise<void>;
+  // The matching readings, oldest first.
+  query(query: HistoryQuery): Promise<SensorReading[]>;
+  // Removes the readings of a device, or of all devices.
+  clear(uuid?: string): Promise<void>;
+}
+
+/**
+ * Keeps the most recent readings of every sensor in memory, dropping the oldest
+ * reading of a sensor once it holds `capacity` of them.
+ */
+export class MemoryHistoryStore implements HistoryStore {
+  private series = new Map<
+    string,
+    { readings: SensorReading[]; next: number }
+  >();
+
+  /**
+   * @param capacity - Readings kept per device and sensor.
+   */
+  constructor(private readonly capacity = 10000) {}
+
+  public async append(readings: SensorReading[]): Promise<void> {
+    for (const reading of readings) {
+      const key = seriesKey(reading.uuid, reading.sensor);
+      const series = this.series.get(key) ?? { readings: [], next: 0 };
+      if (series.readings.length < this.capacity) {
+        series.readings.push({ ...reading });
+      } else {
+        // Overwrite the oldest reading
+        series.readings[series.next] = { ...reading };
+        series.next = (series.next + 1) % this.capacity;
+      }
+      this.series.set(key, series);
+    }
+  }
+
+  public async query(query: HistoryQuery): Promise<SensorReading[]> {
+    const series = this.series.get(seriesKey(query.uuid, query.sensor));
+    if (!series) {
+      return [];
+    }
+    const ordered = [
+      ...series.readings.slice(series.next),
+      ...series.readings.slice(0, series.next),
+    ];
+    return sortByTime(ordered.filter((reading) => inRange(reading, query)));
+  }
+
+  public async clear(uuid?: string): Promise<void> {
+    if (uuid === undefined) {
+      this.series.clear();
+      return;
+    }
+    for (const key of this.series.keys()) {
+      if (key.startsWith(`${uuid}\n`)) {
+        this.series.delete(key);
+      }
+    }
+  }
+}
+
+export type JsonlHistoryStoreOptions = {
+  // Size of the file in bytes beyond which the readings appended first are dropped,
+  // until the file is half that size. Defaults to 10 MiB.
+  maxSize?: number;
+};
+
+/**
+ * Appends readings to a file with one JSON object per line. Queries scan the
+ * file, so it suits moderate amounts of history; lines that cannot be parsed are skipped.
+ * Appends and clears are applied one at a time.
+ */
+export class JsonlHistoryStore implements HistoryStore {
+  private writing: Promise<void> = Promise.resolve();
+  private readonly maxSize: number;
+
+  /**
+   * @param filePath - Path to the file. Parent directories are created on append.
+   * @param options - Size limit of the file.
+   */
+  constructor(
+    private readonly filePath: string,
+    options: JsonlHistoryStoreOptions = {},
+  ) {
+    this.maxSize = options.maxSize ?? 10 * 1024 * 1024;
+  }
+
+  public async append(readings: SensorReading[]): Promise<void> {
+    if (readings.length === 0) {
+      return;
+    }
+    await this.write(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, formatLines(readings));
+      const { size } = await fs.stat(this.filePath);
+      if (size > this.maxSize) {
+        await this.compact();
+      }
+    });
+  }
+
+  public async query(query: HistoryQuery): Promise<SensorReading[]> {
+    const readings = await this.readAll(
+      (reading) =>
+        reading.uuid === query.uuid &&
+        reading.sensor === query.sensor &&
+        inRange(reading, query),
+    );
+    return sortByTime(readings);
+  }
+
+  public async clear(uuid?: string): Promise<void> {
+    await this.write(async () => {
+      if (uuid === undefined) {
+        await fs.rm(this.filePath, { force: true });
+        return;
+      }
+      const kept = await this.readAll((reading) => reading.uuid !== uuid);
+      await writeFileAtomic(this.filePath, formatLines(kept));
+    });
+  }
+
+  /**
+   * Drops the readings appended first until the file is at most half of maxSize.
+   */
+  private async compact(): Promise<void> {
+    const lines = (await this.readAll(() => true)).map((reading) =>
+      formatLines([reading]),
+    );
+    let size = 0;
+    let first = lines.length;
+    while (
+      first > 0 &&
+      size + Buffer.byteLength(lines[first - 1]) <= this.maxSize / 2
+    ) {
+      first--;
+      size += Buffer.byteLength(lines[first]);
+    }
+    await writeFileAtomic(this.filePath, lines.slice(first).join(''));
+  }
+
+  /**
+   * Changes the file once the changes before have been applied.
+   */
+  private write(change: () => Promise<void>): Promise<void> {
+    const write = this.writing.then(change);
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  private async readAll(
+    filter: (reading: SensorReading) => boolean,
+  ): Promise<SensorReading[]> {
+    const readings: SensorReading[] = [];
+    const stream = createReadStream(this.filePath, 'utf8');
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        let reading: SensorReading;
+        try {
+          reading = JSON.parse(line);
+        } catch (error) {
+          continue;
+        }
+        if (reading && filter(reading)) {
+          readings.push(reading);
+        }
+      }
+    } catch (error) {
+      // A missing file simply means there is no history yet.
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    return readings;
+  }
+}
+
+/**
+ * Records the sensor readings of device status reads into a store and answers
+ * range, aggregation and export queries. Readings are timestamped with the time
+ * the device reported them, and a reading seen by several reads is stored once,
+ * also across restarts: the store is asked for the latest reading of a sensor the
+ * first time the sensor is recorded.
+ */
+export class SensorHistory {
+  // Time of the latest recorded reading of every device and sensor
+  private latest = new Map<string, number>();
+  // Sensors whose latest reading was looked up in the store
+  private seeded = new Set<string>();
+  private recording: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param store - Where readings are kept. Defaults to memory.
+   * @param logger - Logger for diagnostics.
+   */
+  constructor(
+    public readonly store: HistoryStore = new MemoryHistoryStore(),
+    private readonly logger: Logger = noopLogger,
+  ) {}
+
+  /**
+   * Records the sensor readings of a status read. Records never overlap, and readings
+   * whose append fails are recorded again by the next read reporting them.
+   * @param statuses - The result of getDeviceStatus.
+   * @param receivedAt - Time used for readings without a timestamp, in epoch milliseconds.
+   * @returns {Promise<number>} - The number of new readings.
+   */
+  public record(
+    statuses: BlueAirDeviceStatus[],
+    receivedAt = Date.now(),
+  ): Promise<number> {
+    const recording = this.recording.then(() =>
+      this.recordNow(statuses, receivedAt),
+    );
+    this.recording = recording.catch(() => undefined);
+    return recording;
+  }
+
+  private async recordNow(
+    statuses: BlueAirDeviceStatus[],
+    receivedAt: number,
+  ): Promise<number> {
+    // Applied once the readings are stored
+    const latest = new Map<string, number>();
+    const readings: SensorReading[] = [];
+    for (const status of statuses) {
+      for (const [sensor, value] of Object.entries(status.sensorData)) {
+        if (typeof value !== 'number') {
+          continue;
+        }
+        const name = sensor as SensorName;
+        const key = seriesKey(status.id, name);
+        const timestamp = status.sensorUpdatedAt?.[name] ?? receivedAt;
+        await this.seed(status.id, name, timestamp);
+        if (
+          (latest.get(key) ?? this.latest.get(key) ?? -Infinity) >= timestamp
+        ) {
+          continue;
+        }
+        latest.set(key, timestamp);
+        readings.push({ uuid: status.id, sensor: name, timestamp, value });
+      }
+    }
+
+    await this.store.append(readings);
+    for (const [key, timestamp] of latest) {
+      this.latest.set(key, timestamp);
+    }
+    return readings.length;
+  }
+
+  /**
+   * Looks up the latest stored reading of a sensor, once, so that readings stored
+   * before a restart are not stored again.
+   */
+  private async seed(
+    uuid: string,
+    sensor: SensorName,
+    timestamp: number,
+  ): Promise<void> {
+    const key = seriesKey(uuid, sensor);
+    if (this.seeded.has(key)) {
+      return;
+    }
+    // Only stored readings at least as recent as this one matter
+    const stored = await this.store.query({ uuid, sensor, from: timestamp });
+    if (stored.length > 0) {
+      this.latest.set(key, stored[stored.length - 1].timestamp);
+    }
+    this.seeded.add(key);
+  }
+
+  /**
+   * Records every poll of a poller until the returned function is called.
+   * @param poller - The poller.
+   * @returns {() => void} - A function that stops recording.
+   */
+  public track(poller: DevicePoller): () => void {
+    const listener = ({
+      statuses,
+      timestamp,
+    }: {
+      statuses: BlueAirDeviceStatus[];
+      timestamp: number;
+    }) => {
+      this.record(statuses, timestamp).catch((error) => {
+        this.logger.warn('Failed to record sensor history', { error });
+      });
+    };
+    poller.on('poll', listener);
+    return () => {
+      poller.off('poll', listener);
+    };
+  }
+
+  /**
+   * Returns the readings of a sensor.
+   * @param uuid - The device uuid.
+   * @param sensor - The sensor.
+   * @param range - The time range.
+   * @returns {Promise<SensorReading[]>} - The readings, oldest first.
+   */
+  public query(
+    uuid: string,
+    sensor: SensorName,
+    range: HistoryRange = {},
+  ): Promise<SensorReading[]> {
+    return this.store.query({ uuid, sensor, ...range });
+  }
+
+  /**
+   * Downsamples the readings of a sensor into buckets of equal length, aligned to
+   * multiples of the bucket size since the epoch. Buckets without readings are left out.
+   * @param uuid - The device uuid.
+   * @param sensor - The sensor.
+   * @param bucketSize - Length of a bucket, in milliseconds.
+   * @param range - The time range.
+   * @returns {Promise<HistoryBucket[]>} - The buckets, oldest first.
+   * @throws {BlueAirValidationError} - If the bucket size is not positive.
+   */
+  public async aggregate(
+    uuid: string,
+    sensor: SensorName,
+    bucketSize: number,
+    range: HistoryRange = {},
+  ): Promise<HistoryBucket[]> {
+    if (!(bucketSize > 0)) {
+      throw new BlueAirValidationError('Bucket size must be positive');
+    }
+
+    const buckets = new Map<number, HistoryBucket & { sum: number }>();
+    for (const { timestamp, value } of await this.query(uuid, sensor, range)) {
+      const start = Math.floor(timestamp / bucketSize) * bucketSize;
+      const bucket = buckets.get(start) ?? {
+        start,
+        end: start + bucketSize,
+        min: value,
+        max: value,
+        avg: 0,
+        count: 0,
+        sum: 0,
+      };
+      bucket.min = Math.min(bucket.min, value);
+      bucket.max = Math.max(bucket.max, value);
+      bucket.count++;
+      bucket.sum += value;
+      buckets.set(start, bucket);
+    }
+
+    return Array.from(buckets.values())
+      .sort((a, b) => a.start - b.start)
+      .map(({ sum, ...bucket }) => ({ ...bucket, avg: sum / bucket.count }));
+  }
+
+  /**
+   * Exports the readings of several sensors of a device.
+   * @param uuid - The device uuid.
+   * @param sensors - The sensors.
+   * @param format - `csv` with a `timestamp,uuid,sensor,value` header and ISO 8601 times,
+   * or `json` with an array of readings.
+   * @param range - The time range.
+   * @returns {Promise<string>} - The exported readings, oldest first.
+   */
+  public async export(
+    uuid: string,
+    sensors: SensorName[],
+    format: HistoryExportFormat = 'csv',
+    range: HistoryRange = {},
+  ): Promise<string> {
+    const readings = sortByTime(
+      (
+        await Promise.all(
+          sensors.map((sensor) => this.query(uuid, sensor, range)),
+        )
+      ).flat(),
+    );
+
+    if (format === 'json') {
+      return JSON.stringify(readings);
+    }
+    return [
+      'timestamp,uuid,sensor,value',
+      ...readings.map(
+        (reading) =>
+          `${new Date(reading.timestamp).toISOString()},${csvField(
+            reading.uuid,
+          )},${reading.sensor},${reading.value}`,
+      ),
+    ].join('\n');
+  }
+}
+
+function seriesKey(uuid: string, sensor: SensorName): string {
+  return `${uuid}\n${sensor}`;
+}
+
+function inRange(reading: SensorReading, range: HistoryRange): boolean {
+  return (
+    (range.from === undefined || reading.timestamp >= range.from) &&
+    (range.to === undefined || reading.timestamp < range.to)
+  );
+}
+
+function sortByTime(readings: SensorReading[]): SensorReading[] {
+  return readings.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatLines(readings: SensorReading[]): string {
+  return readings.map((reading) => `${JSON.stringify(reading)}\n`).join('');
+}
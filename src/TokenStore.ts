@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import { writeJsonFile } from './AtomicFile';
+import { Region } from './Consts';
+
+/**
+ * Authentication material persisted between process restarts.
+ * All `*IssuedAt` fields are epoch milliseconds.
+ */
+export type StoredSession = {
+  region: Region;
+  gigyaToken: string;
+  gigyaSecret: string;
+  gigyaIssuedAt: number;
+  jwt: string;
+  jwtIssuedAt: number;
+  accessToken: string;
+  accessTokenIssuedAt: number;
+};
+
+/**
+ * Storage backend for sessions, keyed by username so that one store
+ * can be shared between several clients.
+ */
+export interface TokenStore {
+  load(username: string): Promise<StoredSession | null>;
+  save(username: string, session: StoredSession): Promise<void>;
+  clear(username: string): Promise<void>;
+}
+
+/**
+ * Keeps sessions in memory only. Useful for tests, or for sharing a session
+ * between several client instances in the same process.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private sessions = new Map<string, StoredSession>();
+
+  public async load(username: string): Promise<StoredSession | null> {
+    const session = this.sessions.get(username);
+    return session ? { ...session } : null;
+  }
+
+  public async save(username: string, session: StoredSession): Promise<void> {
+    this.sessions.set(username, { ...session });
+  }
+
+  public async clear(username: string): Promise<void> {
+    this.sessions.delete(username);
+  }
+}
+
+/**
+ * Persists sessions to a JSON file on disk. The file holds credentials,
+ * so it is written with owner-only permissions. Changes are applied one at a
+ * time, so clients sharing the store do not lose each other's sessions.
+ */
+export class FileTokenStore implements TokenStore {
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Path to the JSON file. Parent directories are created on save.
+   */
+  constructor(private readonly filePath: string) {}
+
+  public async load(username: string): Promise<StoredSession | null> {
+    const sessions = await this.readAll();
+    return sessions[username] ?? null;
+  }
+
+  public save(username: string, session: StoredSession): Promise<void> {
+    return this.update((sessions) => {
+      sessions[username] = session;
+      return true;
+    });
+  }
+
+  public clear(username: string): Promise<void> {
+    return this.update((sessions) => {
+      if (!(username in sessions)) {
+        return false;
+      }
+      delete sessions[username];
+      return true;
+    });
+  }
+
+  /**
+   * Reads the sessions, changes them and writes them back, after the changes
+   * before it have been written.
+   * @param change - Changes the sessions in place; returns false if there is nothing to write.
+   */
+  private update(
+    change: (sessions: { [username: string]: StoredSession }) => boolean,
+  ): Promise<void> {
+    const update = this.writing.then(async () => {
+      const sessions = await this.readAll();
+      if (change(sessions)) {
+        await this.writeAll(sessions);
+      }
+    });
+    this.writing = update.catch(() => undefined);
+    return update;
+  }
+
+  private async readAll(): Promise<{ [username: string]: StoredSession }> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents);
+    } catch (error) {
+      // A missing or corrupt file simply means there is nothing to resume.
+      return {};
+    }
+  }
+
+  private async writeAll(sessions: {
+    [username: string]: StoredSession;
+  }): Promise<void> {
+    await writeJsonFile(this.filePath, sessions, 0o600);
+  }
+}
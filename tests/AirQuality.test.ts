@@ -0,0 +1,124 @@
+import {
+  AirQualityTracker,
+  BlueAirValidationError,
+  classifyReading,
+  computeAqi,
+  HCHO_BANDS,
+  VOC_BANDS,
+} from '../src/BlueAirAwsClient';
+import { makeStatus, startMockCloud } from './helpers';
+
+const HOUR = 3600 * 1000;
+
+describe('computeAqi', () => {
+  test('should compute the US EPA AQI', () => {
+    expect(computeAqi('us-epa', { pm2_5: 12, pm10: 54 })).toEqual({
+      standard: 'us-epa',
+      index: 56,
+      category: 'Moderate',
+      level: 2,
+      dominant: 'pm2_5',
+      pollutants: { pm2_5: 56, pm10: 50 },
+    });
+    expect(computeAqi('us-epa', { pm2_5: 35.49 })?.index).toBe(100);
+    expect(computeAqi('us-epa', { pm2_5: 600 })).toMatchObject({
+      index: 500,
+      category: 'Hazardous',
+    });
+  });
+
+  test('should compute the European CAQI', () => {
+    expect(computeAqi('eu-caqi', { pm2_5: 10, pm10: 70 })).toMatchObject({
+      index: 63,
+      category: 'Medium',
+      dominant: 'pm10',
+      pollutants: { pm2_5: 17, pm10: 63 },
+    });
+    // Above the grid the index keeps rising
+    expect(computeAqi('eu-caqi', { pm2_5: 220 })).toMatchObject({
+      index: 150,
+      category: 'Very high',
+    });
+  });
+
+  test('should compute the China AQI', () => {
+    expect(computeAqi('china', { pm2_5: 80, pm10: 100 })).toMatchObject({
+      index: 107,
+      category: 'Lightly polluted',
+      level: 3,
+      dominant: 'pm2_5',
+      pollutants: { pm2_5: 107, pm10: 75 },
+    });
+  });
+
+  test('should need a concentration and a known standard', () => {
+    expect(computeAqi('us-epa', {})).toBeUndefined();
+    expect(() => computeAqi('who' as 'china', { pm2_5: 1 })).toThrow(
+      BlueAirValidationError,
+    );
+  });
+});
+
+describe('classifyReading', () => {
+  test('should place VOC and HCHO readings in bands', () => {
+    expect(classifyReading(120, VOC_BANDS)).toEqual({
+      level: 1,
+      label: 'Excellent',
+    });
+    expect(classifyReading(150, HCHO_BANDS)).toEqual({
+      level: 4,
+      label: 'Polluted',
+    });
+    expect(classifyReading(5000, VOC_BANDS).label).toBe('Very polluted');
+  });
+});
+
+describe('AirQualityTracker', () => {
+  test('should average over the period of the standard', () => {
+    const tracker = new AirQualityTracker();
+    tracker.record([makeStatus({ id: 'a', sensorData: { pm2_5: 60 } })], 0);
+    tracker.record(
+      [makeStatus({ id: 'a', sensorData: { pm2_5: 40 } })],
+      12 * HOUR,
+    );
+    tracker.record(
+      [makeStatus({ id: 'a', sensorData: { pm2_5: 20 } })],
+      23.5 * HOUR,
+    );
+
+    expect(tracker.getAverage('a', 'pm2_5', 24 * HOUR)).toBe(40);
+    expect(tracker.getIndex('a', 'us-epa')?.pollutants.pm2_5).toBe(112);
+    // CAQI uses the last hour only
+    expect(tracker.getIndex('a', 'eu-caqi')?.pollutants.pm2_5).toBe(33);
+
+    tracker.record(
+      [makeStatus({ id: 'a', sensorData: { pm2_5: 20 } })],
+      25 * HOUR,
+    );
+    expect(tracker.getAverage('a', 'pm2_5', 24 * HOUR)).toBe(80 / 3);
+    expect(tracker.getIndex('b')).toBeUndefined();
+  });
+});
+
+describe('BlueAirAwsClient air quality', () => {
+  test('should attach a summary to every status', async () => {
+    const { cloud, client, uuids } = await startMockCloud(
+      { devices: [{ name: 'Bedroom', sensors: { hcho: 30 } }] },
+      { airQualityStandard: 'china' },
+    );
+    try {
+      const [status] = await client.getDeviceStatus(cloud.accountuuid, uuids);
+
+      expect(status.airQuality).toEqual({
+        standard: 'china',
+        index: 5,
+        category: 'Excellent',
+        dominant: 'pm2_5',
+        voc: { level: 1, label: 'Excellent' },
+        hcho: { level: 2, label: 'Good' },
+      });
+    } finally {
+      await cloud.stop();
+    }
+  });
+});
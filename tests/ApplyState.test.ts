@@ -0,0 +1,149 @@
+import {
+  BlueAirAwsClient,
+  BlueAirHttpError,
+  BlueAirValidationError,
+  MockBlueAirCloud,
+  orderStateChanges,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+describe('orderStateChanges', () => {
+  test('should leave standby first and enter it last', () => {
+    expect(
+      orderStateChanges({ automode: false, fanspeed: 40, standby: false }),
+    ).toEqual([
+      ['standby', false],
+      ['fanspeed', 40],
+      ['automode', false],
+    ]);
+    expect(orderStateChanges({ standby: true, childlock: true })).toEqual([
+      ['childlock', true],
+      ['standby', true],
+    ]);
+  });
+});
+
+describe('BlueAirAwsClient.applyState', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let uuid: string;
+
+  const writtenStates = () =>
+    cloud.requests
+      .filter((request) => request.route === 'action')
+      .map((request) => request.path.split('/').pop());
+
+  beforeEach(async () => {
+    ({
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud(
+      {
+        devices: [
+          {
+            name: 'Bedroom',
+            states: {
+              standby: true,
+              fanspeed: 10,
+              automode: true,
+              childlock: false,
+            },
+          },
+        ],
+      },
+      { retryPolicy: { maxAttempts: 1 } },
+    ));
+    await client.getDeviceStatus(cloud.accountuuid, [uuid]);
+  });
+
+  afterEach(async () => {
+    await cloud.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('should write all fields in order', async () => {
+    const result = await client.applyState(uuid, {
+      automode: false,
+      fanspeed: 40,
+      standby: false,
+    });
+
+    expect(result).toEqual({
+      success: true,
+      applied: { standby: false, fanspeed: 40, automode: false },
+      failed: [],
+      skipped: [],
+      rolledBack: {},
+    });
+    expect(writtenStates()).toEqual(['standby', 'fanspeed', 'automode']);
+    expect(cloud.devices.get(uuid)?.states).toMatchObject({
+      standby: false,
+      fanspeed: 40,
+      automode: false,
+    });
+  });
+
+  test('should validate every field before writing', async () => {
+    const error = await client
+      .applyState(uuid, {
+        fanspeed: 140,
+        childlock: 'yes' as unknown as boolean,
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(BlueAirValidationError);
+    expect(error.message).toContain('fanspeed');
+    expect(error.message).toContain('childlock');
+    expect(writtenStates()).toEqual([]);
+  });
+
+  test('should report per-field failures and continue', async () => {
+    cloud.injectFault({ routes: ['action'], status: 500 });
+
+    const result = await client.applyState(uuid, {
+      standby: false,
+      fanspeed: 40,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.applied).toEqual({ fanspeed: 40 });
+    expect(result.failed).toHaveLength(1);
+    expect(result.failed[0].field).toBe('standby');
+    expect(result.failed[0].error).toBeInstanceOf(BlueAirHttpError);
+  });
+
+  test('should roll back applied fields after a failure', async () => {
+    const setDeviceStatus = client.setDeviceStatus.bind(client);
+    jest
+      .spyOn(client, 'setDeviceStatus')
+      .mockImplementation(async (target, state, value, options) => {
+        if (state === 'automode') {
+          throw new BlueAirHttpError('Rejected', 400);
+        }
+        return setDeviceStatus(target, state, value, options);
+      });
+
+    const result = await client.applyState(
+      uuid,
+      { standby: false, fanspeed: 40, automode: false, childlock: true },
+      { rollback: true },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.applied).toEqual({ standby: false, fanspeed: 40 });
+    expect(result.skipped).toEqual(['childlock']);
+    expect(result.rolledBack).toEqual({ fanspeed: 10, standby: true });
+    expect(writtenStates()).toEqual([
+      'standby',
+      'fanspeed',
+      'fanspeed',
+      'standby',
+    ]);
+    expect(cloud.devices.get(uuid)?.states).toMatchObject({
+      standby: true,
+      fanspeed: 10,
+      childlock: false,
+    });
+  });
+});
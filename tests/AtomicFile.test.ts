@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeFileAtomic, writeJsonFile } from '../src/AtomicFile';
+
+describe('AtomicFile', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueair-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should create parent directories and replace the contents', async () => {
+    const filePath = path.join(dir, 'nested', 'store.json');
+    await writeJsonFile(filePath, { a: 1 });
+    await writeJsonFile(filePath, { b: 2 });
+
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({ b: 2 });
+  });
+
+  test('should leave one whole file after concurrent writes', async () => {
+    const filePath = path.join(dir, 'store.txt');
+    const contents = ['a', 'b', 'c', 'd'].map((letter) =>
+      letter.repeat(100000),
+    );
+
+    await Promise.all(
+      contents.map((content) => writeFileAtomic(filePath, content)),
+    );
+
+    expect(contents).toContain(await fs.readFile(filePath, 'utf8'));
+    expect(await fs.readdir(dir)).toEqual(['store.txt']);
+  });
+
+  test('should create the file with the given permissions', async () => {
+    const filePath = path.join(dir, 'secret.json');
+    await writeJsonFile(filePath, {}, 0o600);
+
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  BlueAirAccountManager,
+  BlueAirGigyaError,
+  BlueAirValidationError,
+  MockBlueAirCloud,
+} from '../src/BlueAirAwsClient';
+import { Region } from '../src/Consts';
+
+describe('BlueAirAccountManager', () => {
+  const home = new MockBlueAirCloud({
+    username: 'home@example.com',
+    password: 'home',
+    devices: [{ name: 'Bedroom' }, { name: 'Kitchen' }],
+  });
+  const cabin = new MockBlueAirCloud({
+    username: 'cabin@example.com',
+    password: 'cabin',
+    awsRegion: 'us-east-1',
+    devices: [{ name: 'Living room' }],
+  });
+  let manager: BlueAirAccountManager;
+
+  beforeAll(async () => {
+    await home.start();
+    await cabin.start();
+  });
+
+  afterAll(async () => {
+    await home.stop();
+    await cabin.stop();
+  });
+
+  beforeEach(() => {
+    manager = new BlueAirAccountManager(
+      [
+        {
+          id: 'home',
+          username: 'home@example.com',
+          password: 'home',
+          options: { endpoints: home.endpoints },
+        },
+        {
+          id: 'cabin',
+          username: 'cabin@example.com',
+          password: 'cabin',
+          options: { endpoints: cabin.endpoints },
+        },
+        {
+          id: 'broken',
+          username: 'home@example.com',
+          password: 'wrong',
+          region: Region.EU,
+          options: { endpoints: home.endpoints },
+        },
+      ],
+      { concurrency: 2, clientOptions: { retryPolicy: { baseDelay: 1 } } },
+    );
+  });
+
+  test('should isolate failing accounts', async () => {
+    const statuses = await manager.initialize();
+
+    expect(statuses.map(({ id, ready }) => ({ id, ready }))).toEqual([
+      { id: 'home', ready: true },
+      { id: 'cabin', ready: true },
+      { id: 'broken', ready: false },
+    ]);
+    expect(statuses[2].error).toBeInstanceOf(BlueAirGigyaError);
+  });
+
+  test('should list the devices of all accounts with their owner', async () => {
+    await manager.initialize();
+
+    expect(manager.devices).toHaveLength(3);
+    const [cabinDevice] = Array.from(cabin.devices.keys());
+    expect(manager.getDevice(cabinDevice)).toMatchObject({
+      accountId: 'cabin',
+      accountuuid: cabin.accountuuid,
+    });
+    expect(manager.getClientForDevice(cabinDevice)).toBe(
+      manager.getClient('cabin'),
+    );
+  });
+
+  test('should route commands and status reads to the owning account', async () => {
+    await manager.initialize();
+    const [homeDevice] = Array.from(home.devices.keys());
+    const [cabinDevice] = Array.from(cabin.devices.keys());
+
+    await manager.setDeviceStatus(cabinDevice, 'fanspeed', 64);
+    await manager.applyState(homeDevice, { childlock: true });
+
+    expect(cabin.devices.get(cabinDevice)?.states.fanspeed).toBe(64);
+    expect(home.devices.get(homeDevice)?.states.childlock).toBe(true);
+
+    const statuses = await manager.getDeviceStatus();
+    expect(statuses.map((status) => status.id).sort()).toEqual(
+      [...home.devices.keys(), ...cabin.devices.keys()].sort(),
+    );
+  });
+
+  test('should reject unknown devices and duplicate accounts', async () => {
+    await manager.initialize();
+
+    await expect(
+      manager.setDeviceStatus('unknown', 'fanspeed', 10),
+    ).rejects.toBeInstanceOf(BlueAirValidationError);
+    expect(() =>
+      manager.addAccount({ id: 'home', username: 'x', password: 'y' }),
+    ).toThrow(BlueAirValidationError);
+  });
+
+  test('should forget the devices of removed accounts', async () => {
+    await manager.initialize();
+    manager.removeAccount('home');
+
+    expect(manager.devices.map((device) => device.accountId)).toEqual([
+      'cabin',
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../src/Cli';
+import { MockBlueAirCloud } from '../src/MockBlueAirCloud';
+
+const username = 'user@example.com';
+const password = 'correct horse';
+
+describe('blueair CLI', () => {
+  const cloud = new MockBlueAirCloud({
+    username,
+    password,
+    devices: [
+      { name: 'Bedroom', states: { fanspeed: 20 }, sensors: { pm2_5: 7 } },
+      { name: 'Kitchen' },
+    ],
+  });
+  let dir: string;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (args: string[], io: { signal?: AbortSignal } = {}) =>
+    runCli(args, {
+      stdout: (text) => {
+        stdout += text;
+      },
+      stderr: (text) => {
+        stderr += text;
+      },
+      env: {
+        BLUEAIR_CONFIG: join(dir, 'config.json'),
+        BLUEAIR_SESSION_FILE: join(dir, 'sessions.json'),
+      },
+      ...io,
+    });
+
+  beforeAll(async () => {
+    await cloud.start();
+  });
+
+  afterAll(async () => {
+    await cloud.stop();
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'blueair-cli-'));
+    writeFileSync(
+      join(dir, 'config.json'),
+      JSON.stringify({ username, password, endpoints: cloud.endpoints }),
+    );
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should log in and cache the session', async () => {
+    expect(await run(['login'])).toBe(0);
+
+    expect(stdout).toBe('Logged in (region EU)\n');
+    expect(existsSync(join(dir, 'sessions.json'))).toBe(true);
+
+    const logins = cloud.countRequests('accounts.login');
+    expect(await run(['devices'])).toBe(0);
+    expect(cloud.countRequests('accounts.login')).toBe(logins);
+  });
+
+  test('should list devices and their status', async () => {
+    const [bedroom, kitchen] = Array.from(cloud.devices.keys());
+
+    expect(await run(['devices'])).toBe(0);
+    expect(stdout).toContain(bedroom);
+    expect(stdout).toContain(kitchen);
+
+    stdout = '';
+    expect(await run(['status', bedroom])).toBe(0);
+    const [header, row] = stdout.trim().split('\n');
+    expect(header).toMatch(/^UUID\s+NAME\s+FAMILY/);
+    expect(row).toMatch(new RegExp(`^${bedroom}\\s+Bedroom\\s+healthprotect`));
+
+    stdout = '';
+    expect(await run(['status', '--json'])).toBe(0);
+    expect(JSON.parse(stdout)).toHaveLength(2);
+  });
+
+  test('should set states by name', async () => {
+    const [bedroom] = Array.from(cloud.devices.keys());
+
+    expect(await run(['set', bedroom, 'fanspeed', '40'])).toBe(0);
+    expect(await run(['set', bedroom, 'nightmode', 'on', '--confirm'])).toBe(0);
+
+    expect(cloud.devices.get(bedroom)?.states).toMatchObject({
+      fanspeed: 40,
+      nightmode: true,
+    });
+    expect(stdout).toContain('Confirmed nightmode');
+  });
+
+  test('should reject invalid commands with exit code 2', async () => {
+    const [bedroom] = Array.from(cloud.devices.keys());
+
+    expect(await run(['set', bedroom, 'mfv', '1'])).toBe(2);
+    expect(await run(['set', bedroom, 'filterusage', '0'])).toBe(2);
+    expect(await run(['set', bedroom, 'volume', '1'])).toBe(2);
+    expect(await run(['set', bedroom, 'standby', 'maybe'])).toBe(2);
+    expect(await run(['status', 'unknown'])).toBe(2);
+    expect(await run(['frobnicate'])).toBe(2);
+    expect(await run(['status', '--region', 'mars'])).toBe(2);
+    expect(stderr).toContain(
+      'Unknown state mfv. Known states: standby, fanspeed, nightmode',
+    );
+    expect(stderr).toContain('Unknown state filterusage.');
+    expect(stderr).not.toMatch(/Known states:.*\bmfv\b/);
+  });
+
+  test('should report failures with exit code 1', async () => {
+    writeFileSync(
+      join(dir, 'config.json'),
+      JSON.stringify({
+        username,
+        password: 'wrong',
+        region: 'eu',
+        endpoints: cloud.endpoints,
+      }),
+    );
+
+    expect(await run(['login'])).toBe(1);
+    expect(stderr).toMatch(/^Error: /);
+  });
+
+  test('should print updates until interrupted', async () => {
+    const [bedroom] = Array.from(cloud.devices.keys());
+    const controller = new AbortController();
+
+    const watching = run(['watch', bedroom, '--interval', '50'], {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    cloud.devices.get(bedroom)!.states.fanspeed = 91;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    controller.abort();
+
+    expect(await watching).toBe(0);
+    expect(stdout).toMatch(new RegExp(`${bedroom} .*fanspeed=91`));
+  });
+
+  test('should diagnose the region lookup', async () => {
+    expect(await run(['region'])).toBe(0);
+
+    expect(stdout).toContain('eu-west-1');
+    expect(stdout).toMatch(/Region\s+EU/);
+  });
+});
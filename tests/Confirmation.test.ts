@@ -0,0 +1,89 @@
+import {
+  BlueAirAwsClient,
+  BlueAirConfirmationError,
+  MockBlueAirCloud,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+describe('Write confirmation', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let uuid: string;
+
+  beforeEach(async () => {
+    ({
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud({
+      devices: [{ name: 'Bedroom', states: { nightmode: false } }],
+    }));
+  });
+
+  afterEach(async () => {
+    await cloud.stop();
+  });
+
+  test('should resolve without confirmation by default', async () => {
+    await expect(client.setNightMode(uuid, true)).resolves.toBeUndefined();
+    expect(cloud.countRequests('initial')).toBe(0);
+  });
+
+  test('should return the confirmed state', async () => {
+    const state = await client.setNightMode(uuid, true, { confirm: true });
+
+    expect(state).toMatchObject({ nightmode: true });
+    // The account was looked up in the device list
+    expect(cloud.countRequests('registered-devices')).toBe(1);
+    expect(cloud.countRequests('initial')).toBe(1);
+  });
+
+  test('should read the status until the device applied the write', async () => {
+    cloud.devices.get(uuid)!.applyDelay = 150;
+
+    const state = await client.setFanSpeed(uuid, 55, {
+      confirm: { interval: 50, timeout: 2000 },
+    });
+
+    expect(state?.fanspeed).toBe(55);
+    expect(cloud.countRequests('initial')).toBeGreaterThan(1);
+  });
+
+  test('should throw when the device does not apply the write', async () => {
+    cloud.devices.get(uuid)!.applyDelay = Infinity;
+
+    const error = await client
+      .setNightMode(uuid, true, { confirm: { interval: 50, timeout: 200 } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(BlueAirConfirmationError);
+    expect(error.uuid).toBe(uuid);
+    expect(error.expected).toEqual({ nightmode: true });
+    expect(error.actual).toMatchObject({ nightmode: false });
+  });
+
+  test('should wait for subscription events', async () => {
+    const subscription = await client.subscribe(
+      cloud.accountuuid,
+      [uuid],
+      undefined,
+      { interval: 50 },
+    );
+    cloud.devices.get(uuid)!.applyDelay = 100;
+    const reads = cloud.countRequests('initial');
+
+    try {
+      const state = await client.setChildLock(uuid, true, {
+        confirm: { subscription, timeout: 2000 },
+      });
+
+      expect(state?.childlock).toBe(true);
+      expect(subscription.statuses[0].state.childlock).toBe(true);
+      // Only the subscription read the status
+      expect(cloud.countRequests('initial')).toBeGreaterThan(reads);
+      expect(cloud.countRequests('registered-devices')).toBe(0);
+    } finally {
+      subscription.stop();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  assertStateSupported,
+  BlueAirAwsClient,
+  BlueAirValidationError,
+  getCapabilities,
+  MockBlueAirCloud,
+  parseModelUrn,
+  registerDeviceFamily,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+describe('Device capabilities', () => {
+  test('should parse model URNs', () => {
+    expect(
+      parseModelUrn('urn:blueair:openapi:version:healthprotect:0.0.5'),
+    ).toEqual({ family: 'healthprotect', schemaVersion: '0.0.5' });
+    expect(parseModelUrn('urn:blueair:openapi:version:DustMagnet')).toEqual({
+      family: 'dustmagnet',
+      schemaVersion: null,
+    });
+    expect(parseModelUrn('classic-480i')).toBeNull();
+  });
+
+  test('should look up known families', () => {
+    const capabilities = getCapabilities(
+      'urn:blueair:openapi:version:dustmagnet:1.0.0',
+    );
+
+    expect(capabilities).toMatchObject({
+      family: 'dustmagnet',
+      schemaVersion: '1.0.0',
+      known: true,
+    });
+    expect(capabilities.states.germshield).toBe(false);
+    expect(capabilities.states.childlock).toBe(true);
+    expect(capabilities.sensors).toContain('pm2_5');
+    expect(capabilities.sensors).not.toContain('voc');
+  });
+
+  test('should assume unknown families only support standby and the fan speed', () => {
+    const capabilities = getCapabilities(
+      'urn:blueair:openapi:version:future:9',
+    );
+
+    expect(capabilities.known).toBe(false);
+    expect(capabilities.sensors).toEqual([]);
+    expect(() =>
+      assertStateSupported(capabilities, 'standby', true),
+    ).not.toThrow();
+    expect(() =>
+      assertStateSupported(capabilities, 'fanspeed', 50),
+    ).not.toThrow();
+    expect(() =>
+      assertStateSupported(capabilities, 'germshield', true),
+    ).toThrow(BlueAirValidationError);
+    expect(() => assertStateSupported(capabilities, 'brightness', 50)).toThrow(
+      BlueAirValidationError,
+    );
+  });
+
+  test('should reject unsupported states and values out of range', () => {
+    registerDeviceFamily('stepper', {
+      states: {
+        germshield: false,
+        disinfection: false,
+        automode: false,
+        nightmode: true,
+        childlock: true,
+        standby: true,
+        brightness: null,
+        fanspeed: { min: 0, max: 3, step: 1 },
+      },
+      sensors: [],
+    });
+    const capabilities = getCapabilities(
+      'urn:blueair:openapi:version:stepper:1',
+    );
+
+    expect(() => assertStateSupported(capabilities, 'gsnm', true)).toThrow(
+      BlueAirValidationError,
+    );
+    expect(() => assertStateSupported(capabilities, 'brightness', 50)).toThrow(
+      BlueAirValidationError,
+    );
+    expect(() => assertStateSupported(capabilities, 'fanspeed', 4)).toThrow(
+      'between 0 and 3',
+    );
+    expect(() => assertStateSupported(capabilities, 'fanspeed', 1.5)).toThrow(
+      BlueAirValidationError,
+    );
+    expect(() =>
+      assertStateSupported(capabilities, 'fanspeed', 2),
+    ).not.toThrow();
+    expect(() =>
+      assertStateSupported(capabilities, 'filterusage', 10),
+    ).not.toThrow();
+  });
+});
+
+describe('BlueAirAwsClient capability checks', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let uuid: string;
+
+  beforeAll(async () => {
+    ({
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud({
+      devices: [
+        { name: 'Hall', model: 'urn:blueair:openapi:version:dustmagnet:1.0.0' },
+      ],
+    }));
+  });
+
+  afterAll(async () => {
+    await cloud.stop();
+  });
+
+  test('should expose capabilities and reject unsupported commands', async () => {
+    expect(client.getCapabilities(uuid)).toBeUndefined();
+    const [status] = await client.getDeviceStatus(cloud.accountuuid, [uuid]);
+    expect(status.capabilities.family).toBe('dustmagnet');
+    expect(client.getCapabilities(uuid)).toBe(status.capabilities);
+
+    const before = cloud.countRequests('action');
+    await expect(
+      client.setDeviceStatus(uuid, 'germshield', true),
+    ).rejects.toBeInstanceOf(BlueAirValidationError);
+    expect(cloud.countRequests('action')).toBe(before);
+
+    await client.setChildLock(uuid, true);
+    expect(cloud.devices.get(uuid)?.states.childlock).toBe(true);
+  });
+});
@@ -0,0 +1,289 @@
+import { BlueAirDeviceStatus } from '../src/Consts';
+import { DevicePoller, diffStatus } from '../src/DevicePoller';
+import { makeStatus } from './helpers';
+
+describe('diffStatus', () => {
+  test('should report every field of the first snapshot', () => {
+    const changes = diffStatus(
+      undefined,
+      makeStatus({
+        id: 'a',
+        state: { fanspeed: 10 },
+        sensorData: { pm2_5: 3 },
+      }),
+      1000,
+    );
+
+    expect(changes).toEqual([
+      {
+        uuid: 'a',
+        source: 'state',
+        field: 'fanspeed',
+        oldValue: undefined,
+        newValue: 10,
+        timestamp: 1000,
+      },
+      {
+        uuid: 'a',
+        source: 'sensorData',
+        field: 'pm2_5',
+        oldValue: undefined,
+        newValue: 3,
+        timestamp: 1000,
+      },
+    ]);
+  });
+
+  test('should report changed and removed fields only', () => {
+    const changes = diffStatus(
+      makeStatus({
+        id: 'a',
+        state: { fanspeed: 10, nightmode: false },
+        sensorData: { pm2_5: 3 },
+      }),
+      makeStatus({ id: 'a', state: { fanspeed: 10, nightmode: true } }),
+    );
+
+    expect(
+      changes.map(({ field, oldValue, newValue }) => ({
+        field,
+        oldValue,
+        newValue,
+      })),
+    ).toEqual([
+      { field: 'nightmode', oldValue: false, newValue: true },
+      { field: 'pm2_5', oldValue: 3, newValue: undefined },
+    ]);
+  });
+});
+
+describe('DevicePoller', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should batch all devices into one call per tick', async () => {
+    const client = {
+      getDeviceStatus: jest.fn(async (accountuuid: string, uuids: string[]) =>
+        uuids.map((uuid) => makeStatus({ id: uuid, state: { fanspeed: 10 } })),
+      ),
+    };
+    const poller = new DevicePoller(client, 'account', ['a', 'b'], {
+      interval: 1000,
+    });
+
+    await poller.start();
+    await jest.advanceTimersByTimeAsync(2000);
+    poller.stop();
+
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(3);
+    expect(client.getDeviceStatus).toHaveBeenCalledWith('account', ['a', 'b']);
+    expect(poller.statuses.map((status) => status.id)).toEqual(['a', 'b']);
+  });
+
+  test('should emit per-field changes', async () => {
+    const responses = [
+      [makeStatus({ id: 'a', state: { fanspeed: 10 } })],
+      [makeStatus({ id: 'a', state: { fanspeed: 10 } })],
+      [makeStatus({ id: 'a', state: { fanspeed: 40 } })],
+    ];
+    const client = { getDeviceStatus: jest.fn(async () => responses.shift()!) };
+    const poller = new DevicePoller(client, 'account', ['a'], {
+      interval: 1000,
+    });
+    const change = jest.fn();
+    poller.on('change', change);
+
+    await poller.start();
+    await jest.advanceTimersByTimeAsync(2000);
+    poller.stop();
+
+    expect(change).toHaveBeenCalledTimes(2);
+    expect(change.mock.calls[1][0]).toMatchObject({
+      uuid: 'a',
+      field: 'fanspeed',
+      oldValue: 10,
+      newValue: 40,
+    });
+  });
+
+  test('should group the changes of a device per poll', async () => {
+    const responses = [
+      [
+        makeStatus({
+          id: 'a',
+          state: { fanspeed: 10, childlock: false },
+          sensorData: { pm2_5: 3, voc: 50 },
+        }),
+      ],
+      [
+        makeStatus({
+          id: 'a',
+          state: { fanspeed: 10, childlock: true },
+          sensorData: { pm2_5: 3, voc: 50 },
+        }),
+      ],
+      [
+        makeStatus({
+          id: 'a',
+          state: { fanspeed: 10, childlock: true },
+          sensorData: { pm2_5: 4, voc: 50 },
+        }),
+      ],
+    ];
+    const client = { getDeviceStatus: jest.fn(async () => responses.shift()!) };
+    const poller = new DevicePoller(client, 'account', ['a'], {
+      interval: 1000,
+    });
+    const stateChanged = jest.fn();
+    const sensorData = jest.fn();
+    poller.on('stateChanged', stateChanged);
+    poller.on('sensorData', sensorData);
+
+    await poller.start();
+    await jest.advanceTimersByTimeAsync(2000);
+    poller.stop();
+
+    expect(stateChanged).toHaveBeenCalledTimes(2);
+    expect(stateChanged.mock.calls[1][0]).toMatchObject({
+      uuid: 'a',
+      state: { fanspeed: 10, childlock: true },
+      changes: { childlock: true },
+    });
+    // Unchanged readings are not reported again
+    expect(sensorData).toHaveBeenCalledTimes(2);
+    expect(sensorData.mock.calls[1][0]).toMatchObject({
+      uuid: 'a',
+      sensorData: { pm2_5: 4, voc: 50 },
+      changes: { pm2_5: 4 },
+    });
+  });
+
+  test('should report a lost connection once when polls start failing', async () => {
+    const responses = [
+      [makeStatus({ id: 'a', state: { fanspeed: 10 } })],
+      new Error('socket hang up'),
+      new Error('socket hang up'),
+      [makeStatus({ id: 'a', state: { fanspeed: 20 } })],
+      new Error('socket hang up'),
+    ];
+    const client = {
+      getDeviceStatus: jest.fn(async () => {
+        const next = responses.shift()!;
+        if (next instanceof Error) {
+          throw next;
+        }
+        return next;
+      }),
+    };
+    const poller = new DevicePoller(client, 'account', ['a'], {
+      interval: 100,
+    });
+    const connectionLost = jest.fn();
+    poller.on('connectionLost', connectionLost);
+
+    await poller.start();
+    // Failed polls back off: 100ms, then 200ms, then 400ms
+    await jest.advanceTimersByTimeAsync(300);
+    expect(connectionLost).toHaveBeenCalledTimes(1);
+    expect(connectionLost.mock.calls[0][0].error.message).toBe(
+      'socket hang up',
+    );
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(connectionLost).toHaveBeenCalledTimes(2);
+    poller.stop();
+  });
+
+  test('should back off on consecutive failures and recover', async () => {
+    const client = {
+      getDeviceStatus: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue([makeStatus({ id: 'a' })]),
+    };
+    const poller = new DevicePoller(client, 'account', ['a'], {
+      interval: 1000,
+      maxBackoff: 3000,
+    });
+    const error = jest.fn();
+    poller.on('error', error);
+
+    await poller.start();
+    expect(error).toHaveBeenLastCalledWith(
+      expect.objectContaining({ consecutiveFailures: 1 }),
+    );
+
+    // First retry after 2s, second after min(4s, 3s)
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(3);
+
+    // Back to the normal interval
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(4);
+    poller.stop();
+  });
+
+  test('should pause, resume and poll on demand', async () => {
+    const client = {
+      getDeviceStatus: jest.fn(async () => [makeStatus({ id: 'a' })]),
+    };
+    const poller = new DevicePoller(client, 'account', ['a'], {
+      interval: 1000,
+    });
+
+    await poller.start();
+    poller.pause();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(1);
+
+    await poller.resume();
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(2);
+
+    // pollNow restarts the interval from now
+    await jest.advanceTimersByTimeAsync(500);
+    await poller.pollNow();
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(3);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(3);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(4);
+    poller.stop();
+  });
+
+  test('should poll again on demand after a poll in flight', async () => {
+    const reads: ((statuses: BlueAirDeviceStatus[]) => void)[] = [];
+    const client = {
+      getDeviceStatus: jest.fn(
+        () =>
+          new Promise<BlueAirDeviceStatus[]>((resolve) => reads.push(resolve)),
+      ),
+    };
+    const poller = new DevicePoller(client, 'account', ['a'], {
+      interval: 1000,
+    });
+
+    const started = poller.start();
+    const polled = [poller.pollNow(), poller.pollNow()];
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(1);
+
+    reads[0]([makeStatus({ id: 'a', state: { fanspeed: 10 } })]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(2);
+
+    reads[1]([makeStatus({ id: 'a', state: { fanspeed: 20 } })]);
+    await Promise.all([started, ...polled]);
+    expect(client.getDeviceStatus).toHaveBeenCalledTimes(2);
+    expect(poller.statuses[0].state.fanspeed).toBe(20);
+    poller.stop();
+  });
+});
@@ -0,0 +1,115 @@
+import { BlueAirDeviceInfo } from '../src/Consts';
+import { mapDeviceStatus, mapStates } from '../src/DeviceStatus';
+import { BlueAirAwsClient, MockBlueAirCloud } from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+const deviceInfo: BlueAirDeviceInfo = {
+  id: 'device-1',
+  configuration: {
+    di: {
+      cma: 'c4:dd:57:00:00:01',
+      name: 'Bedroom',
+      sku: '106121',
+      mfv: '1.0.12',
+      ofv: '2.1.1',
+      hw: 'high_1.5',
+      ds: '110612100000110110000001',
+    },
+    _it: 'urn:blueair:openapi:version:healthprotect:0.0.5',
+  },
+  sensordata: [
+    { n: 'pm2_5', t: 1760000000, v: 3 },
+    { n: 'co2', t: 1760000000, v: 415 },
+  ],
+  states: [
+    { n: 'fanspeed', t: 1760000100, v: 40 },
+    { n: 'standby', t: 1760000200, vb: false },
+    { n: 'mfv', t: 1760000300, vs: '1.0.12' },
+    { n: 'ecomode', t: 1760000400, vb: true },
+    { n: 'childlock', t: 1760000500 },
+  ],
+};
+
+describe('mapDeviceStatus', () => {
+  test('should carry the time of every reading and state', () => {
+    const status = mapDeviceStatus(deviceInfo);
+
+    expect(status.sensorUpdatedAt).toEqual({ pm2_5: 1760000000000 });
+    expect(status.stateUpdatedAt).toEqual({
+      fanspeed: 1760000100000,
+      standby: 1760000200000,
+      mfv: 1760000300000,
+      childlock: 1760000500000,
+    });
+  });
+
+  test('should map string values and keep unknown fields as extras', () => {
+    const status = mapDeviceStatus(deviceInfo);
+
+    expect(status.state).toEqual({
+      fanspeed: 40,
+      standby: false,
+      mfv: '1.0.12',
+    });
+    expect(status.sensorData).toEqual({ pm2_5: 3 });
+    expect(status.extras).toEqual({
+      sensors: { co2: 415 },
+      states: { ecomode: true },
+    });
+    expect(status.raw).toBeUndefined();
+  });
+
+  test('should include the raw device info on request', () => {
+    expect(mapDeviceStatus(deviceInfo, undefined, { raw: true }).raw).toBe(
+      deviceInfo,
+    );
+  });
+
+  test('should map the states of events the same way', () => {
+    expect(mapStates(deviceInfo.states)).toEqual({
+      fanspeed: 40,
+      standby: false,
+      mfv: '1.0.12',
+    });
+  });
+});
+
+describe('getDeviceStatus', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let uuid: string;
+
+  beforeAll(async () => {
+    ({
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud({
+      devices: [
+        {
+          name: 'Bedroom',
+          states: { cfv: '3.1.0', ecomode: true },
+          sensors: { co2: 415 },
+        },
+      ],
+    }));
+  });
+
+  afterAll(async () => {
+    await cloud.stop();
+  });
+
+  test('should expose string states, extras and the raw entry', async () => {
+    const [status] = await client.getDeviceStatus(cloud.accountuuid, [uuid], {
+      raw: true,
+    });
+
+    expect(status.state.cfv).toBe('3.1.0');
+    expect(status.extras).toEqual({
+      sensors: { co2: 415 },
+      states: { ecomode: true },
+    });
+    expect(status.stateUpdatedAt.fanspeed).toBeGreaterThan(0);
+    expect(status.raw?.id).toBe(uuid);
+  });
+});
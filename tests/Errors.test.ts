@@ -0,0 +1,101 @@
+import { AxiosError, AxiosResponse, CanceledError } from 'axios';
+import {
+  BlueAirAuthError,
+  BlueAirAwsClient,
+  BlueAirError,
+  BlueAirGigyaError,
+  BlueAirHttpError,
+  BlueAirRegionError,
+  BlueAirTimeoutError,
+  BlueAirValidationError,
+  toBlueAirError,
+} from '../src/BlueAirAwsClient';
+
+describe('BlueAir errors', () => {
+  test('should keep the error hierarchy and cause', () => {
+    const cause = new Error('socket hang up');
+    const error = new BlueAirGigyaError(
+      'Invalid LoginID',
+      403042,
+      'invalid loginID or password',
+      { cause },
+    );
+
+    expect(error).toBeInstanceOf(BlueAirGigyaError);
+    expect(error).toBeInstanceOf(BlueAirAuthError);
+    expect(error).toBeInstanceOf(BlueAirError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('BlueAirGigyaError');
+    expect(error.errorCode).toBe(403042);
+    expect(error.errorDetails).toBe('invalid loginID or password');
+    expect(error.cause).toBe(cause);
+  });
+
+  test('should convert HTTP error responses', () => {
+    const axiosError = new AxiosError(
+      'Request failed with status code 502',
+      AxiosError.ERR_BAD_RESPONSE,
+      undefined,
+      undefined,
+      { status: 502, data: { message: 'Bad Gateway' } } as AxiosResponse,
+    );
+
+    const error = toBlueAirError(axiosError, 'API call GET /registered-devices');
+
+    expect(error).toBeInstanceOf(BlueAirHttpError);
+    expect((error as BlueAirHttpError).status).toBe(502);
+    expect((error as BlueAirHttpError).body).toEqual({ message: 'Bad Gateway' });
+    expect(error.cause).toBe(axiosError);
+  });
+
+  test('should convert timeouts and cancellations', () => {
+    expect(
+      toBlueAirError(
+        new AxiosError('timeout of 10000ms exceeded', 'ECONNABORTED'),
+        'API call',
+      ),
+    ).toBeInstanceOf(BlueAirTimeoutError);
+    expect(toBlueAirError(new CanceledError(), 'API call')).toBeInstanceOf(
+      BlueAirTimeoutError,
+    );
+  });
+
+  test('should wrap unknown errors and pass BlueAir errors through', () => {
+    const validationError = new BlueAirValidationError('Invalid or missing UUID');
+    expect(toBlueAirError(validationError, 'API call')).toBe(validationError);
+
+    const networkError = new AxiosError('getaddrinfo ENOTFOUND', 'ENOTFOUND');
+    const error = toBlueAirError(networkError, 'API call');
+    expect(error.constructor).toBe(BlueAirError);
+    expect(error.cause).toBe(networkError);
+  });
+});
+
+describe('BlueAirAwsClient error reporting', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should reject invalid setter arguments with validation errors', async () => {
+    const client = new BlueAirAwsClient('user@example.com', 'password');
+
+    await expect(client.setFanSpeed('', 10)).rejects.toBeInstanceOf(
+      BlueAirValidationError,
+    );
+    await expect(client.setFanSpeed('uuid', 101)).rejects.toBeInstanceOf(
+      BlueAirValidationError,
+    );
+  });
+
+  test('should resolve to false or throw depending on throwOnError', async () => {
+    const client = new BlueAirAwsClient('user@example.com', 'password');
+    jest
+      .spyOn(client as any, 'determineEndpoint')
+      .mockRejectedValue(new BlueAirRegionError('No region mapping found'));
+
+    await expect(client.initialize()).resolves.toBe(false);
+    await expect(
+      client.initialize(undefined, { throwOnError: true }),
+    ).rejects.toBeInstanceOf(BlueAirRegionError);
+  });
+});
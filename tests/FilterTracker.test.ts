@@ -0,0 +1,144 @@
+import { FilterTracker } from '../src/FilterTracker';
+import { makeStatus } from './helpers';
+
+const DAY = 24 * 3600 * 1000;
+
+describe('FilterTracker', () => {
+  test('should estimate the days until the change is due', () => {
+    const tracker = new FilterTracker();
+    tracker.record([makeStatus({ id: 'a', state: { filterusage: 10 } })], 0);
+    tracker.record([makeStatus({ id: 'a', state: { filterusage: 10 } })], DAY);
+    tracker.record(
+      [makeStatus({ id: 'a', state: { filterusage: 20 } })],
+      10 * DAY,
+    );
+
+    expect(tracker.getSamples('a')).toHaveLength(2);
+    expect(tracker.getStatus('a', 10 * DAY)).toEqual({
+      uuid: 'a',
+      usage: 20,
+      threshold: 90,
+      due: false,
+      ratePerDay: 1,
+      daysRemaining: 70,
+      dueAt: 80 * DAY,
+      lastReset: null,
+    });
+    expect(tracker.getStatus('b')).toBeUndefined();
+  });
+
+  test('should count the time the usage stayed unchanged', () => {
+    const tracker = new FilterTracker();
+    tracker.record([makeStatus({ id: 'a', state: { filterusage: 10 } })], 0);
+    tracker.record(
+      [makeStatus({ id: 'a', state: { filterusage: 20 } })],
+      10 * DAY,
+    );
+    tracker.record(
+      [makeStatus({ id: 'a', state: { filterusage: 20 } })],
+      15 * DAY,
+    );
+    tracker.record(
+      [makeStatus({ id: 'a', state: { filterusage: 20 } })],
+      20 * DAY,
+    );
+
+    expect(tracker.getSamples('a')).toHaveLength(2);
+    expect(tracker.getStatus('a', 20 * DAY)).toMatchObject({
+      ratePerDay: 0.5,
+      daysRemaining: 140,
+      dueAt: 160 * DAY,
+    });
+
+    const resumed = new FilterTracker({
+      state: JSON.parse(JSON.stringify(tracker.exportState())),
+    });
+    expect(resumed.getStatus('a', 20 * DAY)?.dueAt).toBe(160 * DAY);
+  });
+
+  test('should announce once when the threshold is crossed', () => {
+    const tracker = new FilterTracker({ thresholds: { a: 50 } });
+    const due = jest.fn();
+    tracker.on('filterChangeDue', due);
+
+    tracker.record(
+      [
+        makeStatus({ id: 'a', state: { filterusage: 45 } }),
+        makeStatus({ id: 'b', state: { filterusage: 45 } }),
+      ],
+      0,
+    );
+    tracker.record(
+      [
+        makeStatus({ id: 'a', state: { filterusage: 50 } }),
+        makeStatus({ id: 'b', state: { filterusage: 50 } }),
+      ],
+      DAY,
+    );
+    tracker.record(
+      [makeStatus({ id: 'a', state: { filterusage: 55 } })],
+      2 * DAY,
+    );
+
+    expect(due).toHaveBeenCalledTimes(1);
+    expect(due).toHaveBeenCalledWith({
+      uuid: 'a',
+      usage: 50,
+      threshold: 50,
+      timestamp: DAY,
+    });
+    expect(tracker.getStatus('a')).toMatchObject({
+      due: true,
+      daysRemaining: 0,
+    });
+  });
+
+  test('should start over after a replacement', () => {
+    const tracker = new FilterTracker();
+    const resets = jest.fn();
+    const due = jest.fn();
+    tracker.on('filterReset', resets);
+    tracker.on('filterChangeDue', due);
+
+    tracker.record([makeStatus({ id: 'a', state: { filterusage: 80 } })], 0);
+    tracker.record([makeStatus({ id: 'a', state: { filterusage: 95 } })], DAY);
+    tracker.record(
+      [makeStatus({ id: 'a', state: { filterusage: 0 } })],
+      2 * DAY,
+    );
+
+    expect(resets).toHaveBeenCalledWith({
+      uuid: 'a',
+      previousUsage: 95,
+      timestamp: 2 * DAY,
+    });
+    expect(tracker.getSamples('a')).toEqual([{ timestamp: 2 * DAY, usage: 0 }]);
+    expect(tracker.getStatus('a')).toMatchObject({
+      due: false,
+      lastReset: 2 * DAY,
+    });
+
+    tracker.recordReset('a', 3 * DAY);
+    tracker.record(
+      [makeStatus({ id: 'a', state: { filterusage: 92 } })],
+      4 * DAY,
+    );
+    expect(resets).toHaveBeenCalledTimes(2);
+    expect(due).toHaveBeenCalledTimes(2);
+  });
+
+  test('should resume from an exported state', () => {
+    const tracker = new FilterTracker();
+    tracker.record([makeStatus({ id: 'a', state: { filterusage: 10 } })], 0);
+    tracker.record([makeStatus({ id: 'a', state: { filterusage: 12 } })], DAY);
+
+    const resumed = new FilterTracker({
+      state: JSON.parse(JSON.stringify(tracker.exportState())),
+    });
+
+    expect(resumed.getStatus('a', DAY)).toMatchObject({
+      usage: 12,
+      ratePerDay: 2,
+    });
+  });
+});
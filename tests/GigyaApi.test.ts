@@ -0,0 +1,73 @@
+import { Region } from '../src/Consts';
+import { BlueAirGigyaError } from '../src/Errors';
+import GigyaApi from '../src/GigyaApi';
+import { MockBlueAirCloud } from '../src/MockBlueAirCloud';
+import { resolveRetryPolicy } from '../src/RetryPolicy';
+
+const username = 'user@example.com';
+const password = 'correct horse';
+const retryPolicy = resolveRetryPolicy({ baseDelay: 1, jitter: 0 });
+
+describe('GigyaApi', () => {
+  const cloud = new MockBlueAirCloud({ username, password });
+  let api: GigyaApi;
+
+  beforeAll(async () => {
+    await cloud.start();
+  });
+
+  afterAll(async () => {
+    await cloud.stop();
+  });
+
+  beforeEach(() => {
+    api = new GigyaApi(
+      username,
+      password,
+      Region.EU,
+      retryPolicy,
+      undefined,
+      { baseUrl: cloud.endpoints.gigya },
+    );
+  });
+
+  test('should initialize correctly', () => {
+    expect(api).toBeInstanceOf(GigyaApi);
+  });
+
+  test('should get Gigya session', async () => {
+    const session = await api.getGigyaSession();
+    expect(session).toHaveProperty('token');
+    expect(session).toHaveProperty('secret');
+  });
+
+  test('should get Gigya JWT', async () => {
+    const session = await api.getGigyaSession();
+    const jwt = await api.getGigyaJWT(session.token, session.secret);
+    expect(jwt).toHaveProperty('jwt');
+  });
+
+  test('should report wrong credentials without retrying', async () => {
+    const wrong = new GigyaApi(
+      username,
+      'wrong',
+      Region.EU,
+      retryPolicy,
+      undefined,
+      { baseUrl: cloud.endpoints.gigya },
+    );
+    const before = cloud.countRequests('accounts.login');
+
+    const error = await wrong.getGigyaSession().catch((error) => error);
+
+    expect(error).toBeInstanceOf(BlueAirGigyaError);
+    expect(error.errorCode).toBe(403042);
+    expect(cloud.countRequests('accounts.login')).toBe(before + 1);
+  });
+
+  test('should retry server errors', async () => {
+    cloud.injectFault({ routes: ['accounts.login'], status: 503 });
+
+    await expect(api.getGigyaSession()).resolves.toHaveProperty('token');
+  });
+});
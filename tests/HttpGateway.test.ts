@@ -0,0 +1,188 @@
+import * as http from 'http';
+import {
+  BlueAirAwsClient,
+  HttpGateway,
+  MockBlueAirCloud,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+const token = 'gateway-secret';
+
+describe('HttpGateway', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let gateway: HttpGateway;
+  let uuid: string;
+
+  const call = (path: string, init: RequestInit = {}, auth = token) =>
+    fetch(`${gateway.url}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${auth}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+  beforeEach(async () => {
+    ({
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud({
+      devices: [{ name: 'Bedroom', states: { fanspeed: 20 } }],
+    }));
+    gateway = new HttpGateway(client, {
+      token,
+      subscription: { interval: 50 },
+    });
+    await gateway.start();
+  });
+
+  afterEach(async () => {
+    await gateway.stop();
+    await cloud.stop();
+  });
+
+  test('should require the bearer token', async () => {
+    const response = await call('/devices', {}, 'wrong');
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  test('should list devices and read one', async () => {
+    const list = await call('/devices');
+    expect(list.status).toBe(200);
+    expect(await list.json()).toMatchObject([
+      { id: uuid, name: 'Bedroom', state: { fanspeed: 20 } },
+    ]);
+
+    const one = await call(`/devices/${uuid}`);
+    expect(await one.json()).toMatchObject({ id: uuid });
+
+    const unknown = await call('/devices/unknown');
+    expect(unknown.status).toBe(404);
+  });
+
+  test('should write validated states', async () => {
+    const response = await call(`/devices/${uuid}/state`, {
+      method: 'PATCH',
+      body: JSON.stringify({ fanspeed: 60, childlock: true }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      applied: { fanspeed: 60, childlock: true },
+    });
+    expect(cloud.devices.get(uuid)?.states).toMatchObject({
+      fanspeed: 60,
+      childlock: true,
+    });
+  });
+
+  test('should reject invalid states without calling the API', async () => {
+    const writes = cloud.countRequests('action');
+
+    const invalid = await call(`/devices/${uuid}/state`, {
+      method: 'PATCH',
+      body: JSON.stringify({ fanspeed: 'fast', mfv: '1.0' }),
+    });
+    const malformed = await call(`/devices/${uuid}/state`, {
+      method: 'PATCH',
+      body: '{',
+    });
+
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      error: 'BlueAirValidationError',
+      message: expect.stringContaining('mfv is not writable'),
+    });
+    expect(malformed.status).toBe(400);
+    expect(cloud.countRequests('action')).toBe(writes);
+  });
+
+  test('should stream state changes as Server-Sent Events', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${gateway.url}/events`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: controller.signal,
+    });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    let text = '';
+    cloud.devices.get(uuid)!.states.fanspeed = 85;
+    while (!/"fanspeed":85/.test(text)) {
+      const { value } = await reader.read();
+      text += Buffer.from(value!).toString();
+    }
+    controller.abort();
+
+    expect(text).toMatch(/event: stateChanged\ndata: \{.*"uuid":"[^"]+"/);
+  });
+
+  test('should share one subscription between streams opened together', async () => {
+    const subscribe = jest.spyOn(client, 'subscribe');
+    // Plain requests without an agent, so closing one closes its socket
+    const open = () =>
+      new Promise<http.IncomingMessage>((resolve, reject) => {
+        http
+          .get(
+            `${gateway.url}/events`,
+            { agent: false, headers: { Authorization: `Bearer ${token}` } },
+            resolve,
+          )
+          .on('error', reject);
+      });
+    const read = (response: http.IncomingMessage, pattern: RegExp) =>
+      new Promise<void>((resolve) => {
+        let text = '';
+        const listener = (chunk: Buffer) => {
+          text += chunk.toString();
+          if (pattern.test(text)) {
+            response.off('data', listener);
+            resolve();
+          }
+        };
+        response.on('data', listener);
+      });
+
+    const responses = await Promise.all([open(), open()]);
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    const stop = jest.spyOn(await subscribe.mock.results[0].value, 'stop');
+
+    cloud.devices.get(uuid)!.states.fanspeed = 85;
+    await Promise.all(
+      responses.map((response) => read(response, /"fanspeed":85/)),
+    );
+
+    // The subscription stays open until the last stream is gone
+    responses[0].destroy();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(stop).not.toHaveBeenCalled();
+    responses[1].destroy();
+    while (stop.mock.calls.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  });
+
+  test('should describe the API with OpenAPI', async () => {
+    const response = await call('/openapi.json');
+    const document = await response.json();
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(Object.keys(document.paths)).toEqual([
+      '/devices',
+      '/devices/{uuid}',
+      '/devices/{uuid}/state',
+      '/events',
+    ]);
+    expect(
+      document.components.schemas.StateChanges.properties.fanspeed,
+    ).toMatchObject({ type: 'number', minimum: 0, maximum: 100 });
+    expect(document.components.schemas.DeviceState.properties.mfv).toEqual({
+      type: 'string',
+    });
+  });
+});
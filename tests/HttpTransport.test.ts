@@ -0,0 +1,119 @@
+import axios from 'axios';
+import {
+  BlueAirAwsClient,
+  BlueAirClientOptions,
+  BlueAirHttpError,
+  BlueAirTimeoutError,
+  MockBlueAirCloud,
+} from '../src/BlueAirAwsClient';
+
+const username = 'user@example.com';
+const password = 'correct horse';
+
+describe('HTTP transports', () => {
+  let cloud: MockBlueAirCloud;
+
+  const createClient = (options: BlueAirClientOptions = {}) =>
+    new BlueAirAwsClient(username, password, {
+      endpoints: cloud.endpoints,
+      retryPolicy: { baseDelay: 1, jitter: 0 },
+      ...options,
+    });
+
+  beforeEach(async () => {
+    cloud = new MockBlueAirCloud({
+      username,
+      password,
+      devices: [{ name: 'Bedroom', states: { fanspeed: 20 } }],
+    });
+    await cloud.start();
+  });
+
+  afterEach(async () => {
+    await cloud.stop();
+  });
+
+  test('should send every request through an injected axios instance', async () => {
+    const instance = axios.create();
+    const requested: string[] = [];
+    instance.interceptors.request.use((config) => {
+      requested.push(config.url ?? '');
+      return config;
+    });
+    const client = createClient({ http: instance });
+
+    await client.initialize();
+    await client.getDevices();
+
+    expect(requested).toHaveLength(cloud.requests.length);
+    expect(requested.some((url) => url.includes('/homehost/'))).toBe(true);
+    expect(requested.some((url) => url.includes('/accounts.login'))).toBe(true);
+    expect(requested.some((url) => url.includes('/registered-devices'))).toBe(
+      true,
+    );
+  });
+
+  test('should work with a fetch-compatible function', async () => {
+    const fetchSpy = jest.fn(fetch);
+    const client = createClient({ http: fetchSpy });
+
+    expect(await client.initialize(undefined, { throwOnError: true })).toBe(
+      true,
+    );
+    const [device] = await client.getDevices();
+    await client.setDeviceStatus(device.uuid, 'fanspeed', 40);
+
+    expect(cloud.devices.get(device.uuid)?.states.fanspeed).toBe(40);
+    expect(fetchSpy).toHaveBeenCalledTimes(cloud.requests.length);
+  });
+
+  test('should report fetch error responses with status and Retry-After', async () => {
+    const client = createClient({
+      http: async () =>
+        new Response(JSON.stringify({ message: 'Slow down' }), {
+          status: 429,
+          headers: { 'Retry-After': '2' },
+        }),
+      retryPolicy: { maxAttempts: 1 },
+    });
+
+    const error = await client
+      .initialize(undefined, { throwOnError: true })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(BlueAirHttpError);
+    expect(error.status).toBe(429);
+    expect(error.body).toEqual({ message: 'Slow down' });
+    expect(error.retryAfter).toBe(2000);
+  });
+
+  test('should apply the client timeout and per-call timeouts', async () => {
+    const client = createClient({
+      timeout: 5000,
+      retryPolicy: { maxAttempts: 1 },
+    });
+    await client.initialize();
+
+    cloud.injectFault({ routes: ['registered-devices'], timeout: true });
+    await expect(client.getDevices({ timeout: 50 })).rejects.toBeInstanceOf(
+      BlueAirTimeoutError,
+    );
+
+    cloud.injectFault({ routes: ['registered-devices'], latency: 100 });
+    await expect(client.getDevices()).resolves.toHaveLength(1);
+  });
+
+  test('should time out fetch requests', async () => {
+    cloud.injectFault({ routes: ['homehost'], timeout: true });
+    const client = createClient({
+      http: fetch,
+      timeout: 50,
+      retryPolicy: { maxAttempts: 1 },
+    });
+
+    await expect(
+      client.initialize(undefined, { throwOnError: true }),
+    ).rejects.toBeInstanceOf(BlueAirTimeoutError);
+    await expect(client.initialize()).resolves.toBe(true);
+  });
+});
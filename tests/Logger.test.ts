@@ -0,0 +1,156 @@
+import {
+  BlueAirAwsClient,
+  BlueAirHttpError,
+  createConsoleLogger,
+  createPinoLogger,
+  createRedactingLogger,
+  Logger,
+  redact,
+  withContext,
+} from '../src/BlueAirAwsClient';
+import { Region } from '../src/Consts';
+import GigyaApi from '../src/GigyaApi';
+
+const createRecordingLogger = () => {
+  const entries: { level: string; message: string; context?: object }[] = [];
+  const record =
+    (level: string) =>
+    (message: string, context?: object): void => {
+      entries.push({ level, message, context });
+    };
+  const logger: Logger = {
+    debug: record('debug'),
+    info: record('info'),
+    warn: record('warn'),
+    error: record('error'),
+  };
+  return { logger, entries };
+};
+
+describe('Logger', () => {
+  test('should redact credential fields and embedded tokens', () => {
+    const redacted = redact({
+      headers: {
+        'Authorization': 'Bearer abc.def.ghi',
+        'idtoken': 'eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl',
+        'Content-Type': 'application/json',
+      },
+      password: 'hunter2',
+      sessionSecret: 'secret',
+      message: 'sent Bearer abcdef and eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl',
+      uuid: 'device-1',
+    });
+
+    expect(redacted).toEqual({
+      headers: {
+        'Authorization': '[REDACTED]',
+        'idtoken': '[REDACTED]',
+        'Content-Type': 'application/json',
+      },
+      password: '[REDACTED]',
+      sessionSecret: '[REDACTED]',
+      message: 'sent Bearer [REDACTED] and [REDACTED]',
+      uuid: 'device-1',
+    });
+  });
+
+  test('should reduce errors to their diagnostic fields', () => {
+    const error = new BlueAirHttpError('API call failed with status 500', 500, {
+      token: 'leak',
+    });
+
+    expect(redact({ error })).toEqual({
+      error: {
+        name: 'BlueAirHttpError',
+        message: 'API call failed with status 500',
+        status: 500,
+      },
+    });
+  });
+
+  test('should only write entries at or above the console level', () => {
+    const output = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const logger = createConsoleLogger('warn', output);
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn', { attempt: 2 });
+    logger.error('error');
+
+    expect(output.debug).not.toHaveBeenCalled();
+    expect(output.info).not.toHaveBeenCalled();
+    expect(output.warn).toHaveBeenCalledWith('[BlueAir] warn', { attempt: 2 });
+    expect(output.error).toHaveBeenCalledWith('[BlueAir] error');
+  });
+
+  test('should pass fields first to pino-style loggers', () => {
+    const pino = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const logger = withContext(createPinoLogger(pino), { region: 'EU' });
+
+    logger.info('Logged in', { uuid: 'device-1' });
+
+    expect(pino.info).toHaveBeenCalledWith(
+      { region: 'EU', uuid: 'device-1' },
+      'Logged in',
+    );
+  });
+
+  test('should redact before passing entries on', () => {
+    const { logger, entries } = createRecordingLogger();
+
+    createRedactingLogger(logger).debug('Using Bearer abc', { jwt: 'abc' });
+
+    expect(entries).toEqual([
+      {
+        level: 'debug',
+        message: 'Using Bearer [REDACTED]',
+        context: { jwt: '[REDACTED]' },
+      },
+    ]);
+  });
+});
+
+describe('BlueAirAwsClient logging', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should never log credentials during login', async () => {
+    const { logger, entries } = createRecordingLogger();
+    jest
+      .spyOn(GigyaApi.prototype, 'getGigyaSession')
+      .mockResolvedValue({ token: 'gigya-token', secret: 'gigya-secret' });
+    jest
+      .spyOn(GigyaApi.prototype, 'getGigyaJWT')
+      .mockResolvedValue({ jwt: 'gigya-jwt' });
+
+    const client = new BlueAirAwsClient('user@example.com', 'hunter2', {
+      logger,
+    });
+    jest
+      .spyOn(client as any, 'send')
+      .mockResolvedValue({ access_token: 'aws-access-token' });
+
+    expect(await client.initialize(Region.EU)).toBe(true);
+
+    const logged = JSON.stringify(entries);
+    expect(entries.length).toBeGreaterThan(0);
+    for (const secret of [
+      'hunter2',
+      'gigya-token',
+      'gigya-secret',
+      'gigya-jwt',
+      'aws-access-token',
+    ]) {
+      expect(logged).not.toContain(secret);
+    }
+    expect(entries.some((entry) => (entry.context as any)?.region === 'EU')).toBe(
+      true,
+    );
+  });
+});
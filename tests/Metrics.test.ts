@@ -0,0 +1,96 @@
+import { AddressInfo } from 'net';
+import {
+  BlueAirMetrics,
+  metricRoute,
+  startMetricsServer,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+describe('BlueAirMetrics', () => {
+  test('should reduce uuids in routes', () => {
+    expect(metricRoute('/0b5a8c4e-8d1a-4e1f-9f3c-2a7e1c9b4d21/r/initial')).toBe(
+      '/:id/r/initial',
+    );
+    expect(metricRoute('/registered-devices')).toBe('/registered-devices');
+  });
+
+  test('should record requests, retries, logins and device gauges', async () => {
+    let now = Date.now();
+    const metrics = new BlueAirMetrics(() => now);
+    const {
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud(
+      {
+        devices: [
+          {
+            name: 'Living "room"',
+            states: { filterusage: 40 },
+            sensors: { pm2_5: 7, t: 21 },
+          },
+        ],
+      },
+      { retryPolicy: { maxAttempts: 3, baseDelay: 1, jitter: 0 }, metrics },
+    );
+
+    try {
+      cloud.injectFault({ routes: ['initial'], status: 503 });
+      await client.getDeviceStatus(cloud.accountuuid, [uuid]);
+      now += 60000;
+
+      const text = metrics.render();
+      expect(text).toContain(
+        'blueair_api_requests_total{route="/:id/r/initial",method="POST",status="503"} 1',
+      );
+      expect(text).toContain(
+        'blueair_api_requests_total{route="/:id/r/initial",method="POST",status="200"} 1',
+      );
+      expect(text).toContain(
+        'blueair_api_request_duration_seconds_count{route="/:id/r/initial",method="POST"} 2',
+      );
+      expect(text).toContain(
+        'blueair_api_retries_total{route="/:id/r/initial",method="POST"} 1',
+      );
+      expect(text).toContain('blueair_logins_total 1');
+      const [, age] = /^blueair_token_age_seconds (.+)$/m.exec(text) ?? [];
+      expect(Number(age)).toBeCloseTo(60, 0);
+      expect(text).toMatch(/^blueair_last_poll_timestamp_seconds \d+/m);
+
+      const labels = `uuid="${uuid}",name="Living \\"room\\"",model="urn:blueair:openapi:version:healthprotect:0.0.5"`;
+      expect(text).toContain(
+        `blueair_pm2_5_micrograms_per_cubic_meter{${labels}} 7`,
+      );
+      expect(text).toContain(`blueair_temperature_celsius{${labels}} 21`);
+      expect(text).toContain(`blueair_filter_usage_percent{${labels}} 40`);
+      expect(text).not.toContain('blueair_hcho_ppb');
+      expect(text.endsWith('# EOF\n')).toBe(true);
+    } finally {
+      await cloud.stop();
+    }
+  });
+
+  test('should serve the metrics over HTTP', async () => {
+    const metrics = new BlueAirMetrics();
+    metrics.recordLogin();
+    const server = await startMetricsServer(metrics, {
+      port: 0,
+      host: '127.0.0.1',
+    });
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe(
+        BlueAirMetrics.contentType,
+      );
+      expect(await response.text()).toContain('blueair_logins_total 1');
+
+      const missing = await fetch(`http://127.0.0.1:${port}/other`);
+      expect(missing.status).toBe(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
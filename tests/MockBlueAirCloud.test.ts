@@ -0,0 +1,151 @@
+import {
+  BlueAirAwsClient,
+  BlueAirClientOptions,
+  BlueAirError,
+  BlueAirGigyaError,
+  BlueAirHttpError,
+  MemoryTokenStore,
+  MockBlueAirCloud,
+} from '../src/BlueAirAwsClient';
+import { Region } from '../src/Consts';
+
+const username = 'user@example.com';
+const password = 'correct horse';
+
+describe('BlueAirAwsClient against MockBlueAirCloud', () => {
+  let cloud: MockBlueAirCloud;
+
+  const createClient = (
+    options: BlueAirClientOptions = {},
+    clientPassword = password,
+  ) =>
+    new BlueAirAwsClient(username, clientPassword, {
+      endpoints: cloud.endpoints,
+      retryPolicy: { baseDelay: 1, jitter: 0 },
+      ...options,
+    });
+
+  beforeEach(async () => {
+    cloud = new MockBlueAirCloud({
+      username,
+      password,
+      devices: [
+        { name: 'Bedroom', states: { fanspeed: 20 }, sensors: { pm2_5: 7 } },
+        { name: 'Living room' },
+      ],
+    });
+    await cloud.start();
+  });
+
+  afterEach(async () => {
+    await cloud.stop();
+  });
+
+  test('should determine the region, log in and read devices', async () => {
+    const client = createClient();
+
+    expect(await client.initialize()).toBe(true);
+    expect(cloud.countRequests('homehost')).toBe(1);
+
+    const devices = await client.getDevices();
+    expect(devices.map((device) => device.uuid)).toEqual(
+      Array.from(cloud.devices.keys()),
+    );
+
+    const statuses = await client.getDeviceStatus(
+      devices[0].name,
+      devices.map((device) => device.uuid),
+    );
+    expect(statuses[0]).toMatchObject({
+      name: 'Bedroom',
+      state: { fanspeed: 20, automode: true },
+      sensorData: { pm2_5: 7, temperature: 21.5, humidity: 40, voc: 120 },
+    });
+  });
+
+  test('should look up the account of a device', async () => {
+    const client = createClient();
+    await client.initialize(Region.EU);
+    const [uuid] = cloud.devices.keys();
+
+    expect(await client.getAccountUuid(uuid)).toBe(cloud.accountuuid);
+    expect(await client.getAccountUuid(uuid)).toBe(cloud.accountuuid);
+    expect(cloud.countRequests('registered-devices')).toBe(1);
+
+    const error = await client
+      .getAccountUuid('missing')
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(BlueAirError);
+  });
+
+  test('should change device state', async () => {
+    const client = createClient();
+    await client.initialize(Region.EU);
+    const [uuid] = cloud.devices.keys();
+
+    await client.setChildLock(uuid, true);
+    await client.setFanSpeed(uuid, 55);
+
+    const [status] = await client.getDeviceStatus(cloud.accountuuid, [uuid]);
+    expect(status.state.childlock).toBe(true);
+    expect(status.state.fanspeed).toBe(55);
+  });
+
+  test('should report wrong passwords as Gigya errors', async () => {
+    const client = createClient({}, 'wrong');
+
+    const error = await client
+      .initialize(Region.EU, { throwOnError: true })
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(BlueAirGigyaError);
+    expect(error.errorCode).toBe(403042);
+  });
+
+  test('should resume a stored session without the password', async () => {
+    const tokenStore = new MemoryTokenStore();
+    await createClient({ tokenStore }).initialize();
+
+    const client = createClient({ tokenStore });
+    expect(await client.initialize()).toBe(true);
+    expect(await client.getDevices()).toHaveLength(2);
+    expect(cloud.countRequests('accounts.login')).toBe(1);
+    expect(cloud.countRequests('homehost')).toBe(1);
+  });
+
+  test('should re-authenticate after 401s', async () => {
+    const client = createClient();
+    await client.initialize(Region.EU);
+
+    cloud.revokeTokens();
+    expect(await client.getDevices()).toHaveLength(2);
+    expect(cloud.countRequests('accounts.getJWT')).toBe(2);
+    expect(cloud.countRequests('accounts.login')).toBe(1);
+
+    cloud.injectFault({ routes: ['registered-devices'], status: 401 });
+    expect(await client.getDevices()).toHaveLength(2);
+  });
+
+  test('should retry injected server errors and latency', async () => {
+    const client = createClient();
+    await client.initialize(Region.EU);
+
+    cloud.injectFault({ routes: ['registered-devices'], status: 503, times: 2 });
+    cloud.injectFault({ routes: ['registered-devices'], latency: 50 });
+    expect(await client.getDevices()).toHaveLength(2);
+    expect(cloud.countRequests('registered-devices')).toBe(3);
+  });
+
+  test('should surface persistent failures and malformed bodies', async () => {
+    const client = createClient();
+    await client.initialize(Region.EU);
+
+    cloud.injectFault({ routes: ['registered-devices'], status: 500, times: 10 });
+    const error = await client.getDevices().catch((error) => error);
+    expect(error).toBeInstanceOf(BlueAirHttpError);
+    expect(error.status).toBe(500);
+
+    cloud.clearFaults();
+    cloud.injectFault({ routes: ['registered-devices'], malformed: true });
+    await expect(client.getDevices()).rejects.toBeInstanceOf(BlueAirError);
+  });
+});
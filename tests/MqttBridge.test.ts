@@ -0,0 +1,192 @@
+import {
+  BlueAirAwsClient,
+  MockBlueAirCloud,
+  MqttBridge,
+  MqttClientLike,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+/**
+ * In-memory stand-in for a broker connection: keeps the retained messages
+ * and delivers injected messages to the subscribed listeners.
+ */
+class FakeMqttClient implements MqttClientLike {
+  public retained = new Map<string, string>();
+  public published: { topic: string; message: string }[] = [];
+  public subscriptions = new Set<string>();
+  private listeners = new Set<(topic: string, payload: Buffer) => void>();
+
+  publish(topic: string, message: string, options?: { retain?: boolean }) {
+    this.published.push({ topic, message });
+    if (options?.retain) {
+      this.retained.set(topic, message);
+    }
+  }
+
+  subscribe(topic: string | string[]) {
+    [topic].flat().forEach((t) => this.subscriptions.add(t));
+  }
+
+  unsubscribe(topic: string | string[]) {
+    [topic].flat().forEach((t) => this.subscriptions.delete(t));
+  }
+
+  on(_event: 'message', listener: (topic: string, payload: Buffer) => void) {
+    this.listeners.add(listener);
+  }
+
+  removeListener(
+    _event: 'message',
+    listener: (topic: string, payload: Buffer) => void,
+  ) {
+    this.listeners.delete(listener);
+  }
+
+  json(topic: string) {
+    const message = this.retained.get(topic);
+    return message === undefined ? undefined : JSON.parse(message);
+  }
+
+  deliver(topic: string, payload: string) {
+    const matches = Array.from(this.subscriptions).some((filter) =>
+      new RegExp(
+        `^${filter.replace(/\+/g, '[^/]+').replace(/#/g, '.*')}$`,
+      ).test(topic),
+    );
+    if (matches) {
+      this.listeners.forEach((listener) =>
+        listener(topic, Buffer.from(payload)),
+      );
+    }
+  }
+}
+
+describe('MqttBridge', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let mqtt: FakeMqttClient;
+  let bridge: MqttBridge;
+  let uuid: string;
+
+  beforeEach(async () => {
+    ({
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud({
+      devices: [
+        { name: 'Bedroom', states: { fanspeed: 20 }, sensors: { pm2_5: 7 } },
+      ],
+    }));
+    mqtt = new FakeMqttClient();
+    bridge = new MqttBridge(client, mqtt, cloud.accountuuid, [uuid], {
+      subscription: { interval: 50 },
+    });
+    await bridge.start();
+  });
+
+  afterEach(async () => {
+    bridge.stop();
+    await cloud.stop();
+  });
+
+  const nextCommand = () =>
+    new Promise((resolve, reject) => {
+      bridge.once('command', resolve);
+      bridge.once('error', ({ error }) => reject(error));
+    });
+
+  test('should publish Home Assistant discovery payloads', () => {
+    const fan = mqtt.json(`homeassistant/fan/blueair_${uuid}/fan/config`);
+    expect(fan).toMatchObject({
+      unique_id: `blueair_${uuid}_fan`,
+      command_topic: `blueair/${uuid}/power/set`,
+      percentage_command_topic: `blueair/${uuid}/fanspeed/set`,
+      preset_modes: ['auto', 'night'],
+      availability_topic: 'blueair/status',
+      device: { identifiers: [`blueair_${uuid}`], name: 'Bedroom' },
+    });
+
+    for (const object of ['childlock', 'germshield']) {
+      expect(
+        mqtt.json(`homeassistant/switch/blueair_${uuid}/${object}/config`),
+      ).toMatchObject({ command_topic: `blueair/${uuid}/${object}/set` });
+    }
+    for (const object of [
+      'pm1',
+      'pm2_5',
+      'pm10',
+      'voc',
+      'hcho',
+      'temperature',
+      'humidity',
+      'filterusage',
+    ]) {
+      expect(
+        mqtt.json(`homeassistant/sensor/blueair_${uuid}/${object}/config`),
+      ).toBeDefined();
+    }
+  });
+
+  test('should publish state, sensor data and availability', async () => {
+    expect(mqtt.retained.get('blueair/status')).toBe('online');
+    expect(mqtt.json(`blueair/${uuid}/state`)).toMatchObject({ fanspeed: 20 });
+    expect(mqtt.json(`blueair/${uuid}/sensors`)).toMatchObject({ pm2_5: 7 });
+
+    cloud.devices.get(uuid)!.states.fanspeed = 75;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(mqtt.json(`blueair/${uuid}/state`)).toMatchObject({ fanspeed: 75 });
+
+    bridge.stop();
+    expect(mqtt.retained.get('blueair/status')).toBe('offline');
+  });
+
+  test('should pass commands to the setters', async () => {
+    const states = cloud.devices.get(uuid)!.states;
+
+    let done = nextCommand();
+    mqtt.deliver(`blueair/${uuid}/fanspeed/set`, '64');
+    await done;
+    done = nextCommand();
+    mqtt.deliver(`blueair/${uuid}/power/set`, 'OFF');
+    await done;
+    done = nextCommand();
+    mqtt.deliver(`blueair/${uuid}/childlock/set`, 'ON');
+    await done;
+    done = nextCommand();
+    mqtt.deliver(`blueair/${uuid}/preset/set`, 'night');
+    await done;
+
+    expect(states).toMatchObject({
+      fanspeed: 64,
+      standby: true,
+      childlock: true,
+      nightmode: true,
+      automode: false,
+    });
+  });
+
+  test('should switch the other preset off before the new one', async () => {
+    const states = cloud.devices.get(uuid)!.states;
+    const setDeviceStatus = jest.spyOn(client, 'setDeviceStatus');
+    states.nightmode = true;
+    states.automode = false;
+
+    const done = nextCommand();
+    mqtt.deliver(`blueair/${uuid}/preset/set`, 'auto');
+    await done;
+
+    expect(setDeviceStatus.mock.calls).toEqual([
+      [uuid, 'nightmode', false],
+      [uuid, 'automode', true],
+    ]);
+    expect(states).toMatchObject({ automode: true, nightmode: false });
+  });
+
+  test('should report invalid commands', async () => {
+    const done = nextCommand();
+    mqtt.deliver(`blueair/${uuid}/fanspeed/set`, 'fast');
+
+    await expect(done).rejects.toThrow('Invalid fan speed fast');
+  });
+});
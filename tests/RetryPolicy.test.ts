@@ -0,0 +1,155 @@
+import { AxiosError } from 'axios';
+import {
+  BlueAirAwsClient,
+  BlueAirError,
+  BlueAirHttpError,
+  BlueAirTimeoutError,
+  BlueAirValidationError,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+  withRetry,
+} from '../src/BlueAirAwsClient';
+
+const policy = resolveRetryPolicy({ baseDelay: 1, maxDelay: 10, jitter: 0 });
+
+describe('RetryPolicy', () => {
+  test('should classify retryable errors', () => {
+    expect(isRetryableError(new BlueAirHttpError('busy', 503), policy)).toBe(
+      true,
+    );
+    expect(isRetryableError(new BlueAirHttpError('missing', 404), policy)).toBe(
+      false,
+    );
+    expect(isRetryableError(new BlueAirTimeoutError('slow'), policy)).toBe(
+      true,
+    );
+    expect(isRetryableError(new BlueAirValidationError('bad'), policy)).toBe(
+      false,
+    );
+    expect(
+      isRetryableError(
+        new BlueAirError('offline', {
+          cause: new AxiosError('getaddrinfo ENOTFOUND', 'ENOTFOUND'),
+        }),
+        policy,
+      ),
+    ).toBe(true);
+  });
+
+  test('should support a per-status predicate', () => {
+    const custom = resolveRetryPolicy({
+      retryableStatuses: (status) => status === 404,
+    });
+    expect(isRetryableError(new BlueAirHttpError('missing', 404), custom)).toBe(
+      true,
+    );
+    expect(isRetryableError(new BlueAirHttpError('busy', 503), custom)).toBe(
+      false,
+    );
+  });
+
+  test('should back off exponentially up to the maximum delay', () => {
+    const backoff = resolveRetryPolicy({
+      baseDelay: 100,
+      maxDelay: 1000,
+      jitter: 0,
+    });
+    expect(getRetryDelay(1, backoff)).toBe(100);
+    expect(getRetryDelay(2, backoff)).toBe(200);
+    expect(getRetryDelay(3, backoff)).toBe(400);
+    expect(getRetryDelay(5, backoff)).toBe(1000);
+  });
+
+  test('should keep jitter within bounds', () => {
+    const jittered = resolveRetryPolicy({ baseDelay: 100, jitter: 0.5 });
+    for (let i = 0; i < 50; i++) {
+      const delay = getRetryDelay(1, jittered);
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(150);
+    }
+  });
+
+  test('should honor Retry-After up to the maximum delay', () => {
+    const backoff = resolveRetryPolicy({ baseDelay: 100, maxDelay: 5000 });
+    const throttled = new BlueAirHttpError('throttled', 429, undefined, {
+      retryAfter: 2000,
+    });
+    expect(getRetryDelay(1, backoff, throttled)).toBe(2000);
+
+    const tooLong = new BlueAirHttpError('throttled', 429, undefined, {
+      retryAfter: 60000,
+    });
+    expect(getRetryDelay(1, backoff, tooLong)).toBe(5000);
+    expect(
+      getRetryDelay(
+        1,
+        { ...backoff, respectRetryAfter: false, jitter: 0 },
+        throttled,
+      ),
+    ).toBe(100);
+  });
+
+  test('should retry until success', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new BlueAirHttpError('busy', 503))
+      .mockRejectedValueOnce(new BlueAirTimeoutError('slow'))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(fn, policy, onRetry)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  test('should stop after maxAttempts', async () => {
+    const fn = jest.fn().mockRejectedValue(new BlueAirHttpError('busy', 503));
+
+    await expect(withRetry(fn, policy)).rejects.toBeInstanceOf(
+      BlueAirHttpError,
+    );
+    expect(fn).toHaveBeenCalledTimes(policy.maxAttempts);
+  });
+
+  test('should not retry errors that are not retryable', async () => {
+    const fn = jest.fn().mockRejectedValue(new BlueAirHttpError('bad', 400));
+
+    await expect(withRetry(fn, policy)).rejects.toBeInstanceOf(
+      BlueAirHttpError,
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('BlueAirAwsClient retries', () => {
+  const createClient = () =>
+    new BlueAirAwsClient('user@example.com', 'password', {
+      retryPolicy: { maxAttempts: 3, baseDelay: 1, jitter: 0 },
+    });
+
+  test('should retry server errors with the configured policy', async () => {
+    const client = createClient();
+    const sendSpy = jest
+      .spyOn(client as any, 'send')
+      .mockRejectedValueOnce(new BlueAirHttpError('busy', 503))
+      .mockResolvedValueOnce({ devices: [] });
+
+    await expect(
+      client['request']('/registered-devices', undefined, 'GET', undefined),
+    ).resolves.toEqual({ devices: [] });
+    expect(sendSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not retry client errors', async () => {
+    const client = createClient();
+    const sendSpy = jest
+      .spyOn(client as any, 'send')
+      .mockRejectedValue(new BlueAirHttpError('bad request', 400));
+
+    await expect(
+      client['request']('/registered-devices', undefined, 'GET', undefined),
+    ).rejects.toBeInstanceOf(BlueAirHttpError);
+    expect(sendSpy).toHaveBeenCalledTimes(1);
+  });
+});
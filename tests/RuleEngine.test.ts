@@ -0,0 +1,155 @@
+import { BlueAirValidationError } from '../src/Errors';
+import { Rule, RuleEngine } from '../src/RuleEngine';
+import { makeStatus } from './helpers';
+
+const MINUTE = 60 * 1000;
+
+// The sensor of the living room drives the purifier of the bedroom
+const boostRule: Rule = {
+  id: 'boost',
+  conditions: [{ uuid: 'living', sensor: 'pm2_5', above: 35 }],
+  until: [{ uuid: 'living', sensor: 'pm2_5', below: 12 }],
+  deactivateAfter: 10 * MINUTE,
+  actions: [{ uuid: 'bedroom', state: { fanspeed: 100 } }],
+  revert: [{ uuid: 'bedroom', state: { automode: true } }],
+};
+
+const makeClient = () => ({
+  applyState: jest.fn().mockResolvedValue({
+    success: true,
+    applied: {},
+    failed: [],
+    skipped: [],
+    rolledBack: {},
+  }),
+});
+
+describe('RuleEngine', () => {
+  test('should act with hysteresis and a dwell time', async () => {
+    const client = makeClient();
+    const engine = new RuleEngine(client);
+    const deactivate = jest.fn();
+    engine.on('deactivate', deactivate);
+    engine.addRule(boostRule);
+
+    const pm = (pm2_5: number, minute: number) =>
+      engine.evaluate(
+        [
+          makeStatus({ id: 'living', sensorData: { pm2_5 } }),
+          makeStatus({ id: 'bedroom' }),
+        ],
+        minute * MINUTE,
+      );
+
+    await expect(pm(20, 0)).resolves.toEqual([]);
+    const [activated] = await pm(40, 1);
+    expect(activated).toMatchObject({ id: 'boost', dryRun: false });
+    expect(client.applyState).toHaveBeenCalledWith('bedroom', {
+      fanspeed: 100,
+    });
+
+    // Between the thresholds nothing changes
+    await expect(pm(20, 2)).resolves.toEqual([]);
+    expect(engine.getRuleState('boost')).toMatchObject({ active: true });
+
+    // Below the lower threshold, but not for long enough
+    await pm(10, 3);
+    await pm(15, 8);
+    await pm(10, 9);
+    await pm(10, 18);
+    expect(deactivate).not.toHaveBeenCalled();
+
+    await pm(10, 19);
+    expect(deactivate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'boost',
+        timestamp: 19 * MINUTE,
+        actions: boostRule.revert,
+      }),
+    );
+    expect(client.applyState).toHaveBeenLastCalledWith('bedroom', {
+      automode: true,
+    });
+    expect(engine.getRuleState('boost')).toEqual({
+      active: false,
+      pendingSince: null,
+      changedAt: 19 * MINUTE,
+    });
+  });
+
+  test('should only report actions in dry-run mode', async () => {
+    const client = makeClient();
+    const engine = new RuleEngine(client, { dryRun: true });
+    engine.addRule({
+      id: 'night',
+      conditions: [
+        { uuid: 'bedroom', state: 'nightmode', equals: true },
+        { uuid: 'bedroom', sensor: 'temperature', above: 24 },
+      ],
+      match: 'any',
+      actions: [{ uuid: 'bedroom', state: { brightness: 0 } }],
+    });
+
+    const transitions = await engine.evaluate([
+      makeStatus({
+        id: 'bedroom',
+        sensorData: { temperature: 21 },
+        state: { nightmode: true },
+      }),
+    ]);
+
+    expect(transitions).toEqual([
+      expect.objectContaining({
+        id: 'night',
+        dryRun: true,
+        actions: [{ uuid: 'bedroom', state: { brightness: 0 } }],
+        results: [],
+      }),
+    ]);
+    expect(client.applyState).not.toHaveBeenCalled();
+  });
+
+  test('should report failed actions and stay active', async () => {
+    const client = makeClient();
+    client.applyState.mockRejectedValueOnce(new Error('offline'));
+    const engine = new RuleEngine(client);
+    engine.addRule({ ...boostRule, activateAfter: MINUTE });
+
+    await engine.evaluate(
+      [makeStatus({ id: 'living', sensorData: { pm2_5: 50 } })],
+      0,
+    );
+    const [transition] = await engine.evaluate(
+      [makeStatus({ id: 'living', sensorData: { pm2_5: 50 } })],
+      MINUTE,
+    );
+
+    expect(transition.results).toEqual([
+      { uuid: 'bedroom', error: new Error('offline') },
+    ]);
+    expect(engine.getRuleState('boost')?.active).toBe(true);
+  });
+
+  test('should reject invalid rules', () => {
+    const engine = new RuleEngine(makeClient());
+    const invalid: Rule[] = [
+      { ...boostRule, conditions: [] },
+      { ...boostRule, conditions: [{ uuid: 'living', sensor: 'pm2_5' }] },
+      {
+        ...boostRule,
+        conditions: [
+          { uuid: 'living', sensor: 'pm2_5', state: 'fanspeed', above: 1 },
+        ],
+      },
+      {
+        ...boostRule,
+        actions: [{ uuid: 'bedroom', state: { fanspeed: 200 } }],
+      },
+      { ...boostRule, deactivateAfter: -1 },
+    ];
+    for (const rule of invalid) {
+      expect(() => engine.addRule(rule)).toThrow(BlueAirValidationError);
+    }
+    expect(engine.getRules()).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BlueAirAwsClient,
+  BlueAirValidationError,
+  FileSceneStore,
+  MockBlueAirCloud,
+  SceneManager,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+describe('SceneManager', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let accountuuid: string;
+  let uuids: string[];
+  let dir: string;
+
+  const states = (uuid: string) => cloud.devices.get(uuid)?.states;
+
+  beforeEach(async () => {
+    ({ cloud, client, uuids } = await startMockCloud(
+      {
+        devices: [
+          { name: 'Bedroom', states: { fanspeed: 20, automode: false } },
+          { name: 'Living room' },
+        ],
+      },
+      { retryPolicy: { maxAttempts: 1 } },
+    ));
+    accountuuid = cloud.accountuuid;
+    dir = mkdtempSync(join(tmpdir(), 'blueair-scenes-'));
+  });
+
+  afterEach(async () => {
+    await cloud.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should capture and re-apply a scene', async () => {
+    const store = new FileSceneStore(join(dir, 'scenes.json'));
+    const scenes = new SceneManager(client, accountuuid, { store });
+
+    const scene = await scenes.capture('Movie night', uuids);
+    expect(scene.devices[uuids[0]]).toEqual({
+      standby: false,
+      fanspeed: 20,
+      nightmode: false,
+      automode: false,
+      brightness: 100,
+      childlock: false,
+      germshield: false,
+    });
+
+    await client.applyState(uuids[0], { fanspeed: 90, brightness: 10 });
+
+    // A new manager reads the scene from the file
+    const restarted = new SceneManager(client, accountuuid, { store });
+    await expect(restarted.listScenes()).resolves.toHaveLength(1);
+    const result = await restarted.apply('Movie night');
+
+    expect(result.success).toBe(true);
+    expect(result.devices.map(({ uuid }) => uuid)).toEqual(uuids);
+    expect(states(uuids[0])).toMatchObject({ fanspeed: 20, brightness: 100 });
+  });
+
+  test('should report the outcome of every device', async () => {
+    const scenes = new SceneManager(client, accountuuid);
+    await scenes.define('Away', {
+      [uuids[0]]: { standby: true },
+      [uuids[1]]: { standby: true },
+    });
+    cloud.injectFault({ routes: ['action'], status: 500 });
+
+    const result = await scenes.apply('Away');
+
+    expect(result.success).toBe(false);
+    expect(result.devices[0].result?.failed).toHaveLength(1);
+    expect(result.devices[1].result?.success).toBe(true);
+    expect(states(uuids[1])?.standby).toBe(true);
+    await expect(scenes.apply('Party')).rejects.toThrow(BlueAirValidationError);
+    await expect(
+      scenes.define('Broken', { [uuids[0]]: { fanspeed: 150 } }),
+    ).rejects.toThrow(BlueAirValidationError);
+  });
+
+  test('should restore the snapshot after an override', async () => {
+    const scenes = new SceneManager(client, accountuuid);
+
+    const override = await scenes.override(
+      uuids,
+      { fanspeed: 100, automode: false },
+      50,
+    );
+    expect(override.applied.success).toBe(true);
+    expect(states(uuids[0])?.fanspeed).toBe(100);
+    expect(states(uuids[1])).toMatchObject({ fanspeed: 100, automode: false });
+
+    const restored = await override.restored;
+    expect(restored?.success).toBe(true);
+    expect(states(uuids[0])).toMatchObject({ fanspeed: 20, automode: false });
+    expect(states(uuids[1])).toMatchObject({ fanspeed: 11, automode: true });
+    await expect(override.restore()).resolves.toBe(restored);
+  });
+
+  test('should not restore a cancelled override', async () => {
+    const scenes = new SceneManager(client, accountuuid);
+
+    const override = await scenes.override(uuids, { brightness: 0 }, 60000);
+    override.cancel();
+
+    await expect(override.restored).resolves.toBeNull();
+    expect(states(uuids[0])?.brightness).toBe(0);
+  });
+});
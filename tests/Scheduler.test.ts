@@ -0,0 +1,262 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BlueAirAwsClient,
+  BlueAirValidationError,
+  FileScheduleStore,
+  MockBlueAirCloud,
+  nextScheduledRun,
+  Scheduler,
+  SchedulerClock,
+  SchedulerEvents,
+} from '../src/BlueAirAwsClient';
+import { startMockCloud } from './helpers';
+
+const tz = 'Europe/Stockholm';
+
+const iso = (time: number | null) =>
+  time === null ? null : new Date(time).toISOString();
+
+class FakeClock implements SchedulerClock {
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextId = 1;
+
+  constructor(public time: number) {}
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => void, delay: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + delay, callback });
+    return id;
+  }
+
+  public clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  public advance(ms: number): void {
+    this.time += ms;
+    for (const [id, timer] of Array.from(this.timers)) {
+      if (timer.at <= this.time) {
+        this.timers.delete(id);
+        timer.callback();
+      }
+    }
+  }
+}
+
+describe('nextScheduledRun', () => {
+  const after = Date.UTC(2026, 9, 23, 12); // Friday 14:00 in Stockholm
+
+  test('should understand times, weekdays and cron expressions', () => {
+    expect(iso(nextScheduledRun('22:30', after, tz))).toBe(
+      '2026-10-23T20:30:00.000Z',
+    );
+    expect(iso(nextScheduledRun('mon-fri 07:00', after, tz))).toBe(
+      '2026-10-26T06:00:00.000Z',
+    );
+    expect(iso(nextScheduledRun('Weekends 09:15', after, tz))).toBe(
+      '2026-10-24T07:15:00.000Z',
+    );
+    expect(iso(nextScheduledRun('*/20 9-17 * * 1-5', after, tz))).toBe(
+      '2026-10-23T12:20:00.000Z',
+    );
+    expect(iso(nextScheduledRun('0 8 1 * *', after, 'UTC'))).toBe(
+      '2026-11-01T08:00:00.000Z',
+    );
+    expect(nextScheduledRun('0 0 31 2 *', after, tz)).toBeNull();
+  });
+
+  test('should follow daylight saving time', () => {
+    // 02:30 does not exist on 29 March and occurs twice on 25 October
+    expect(iso(nextScheduledRun('02:30', Date.UTC(2026, 2, 28, 12), tz))).toBe(
+      '2026-03-29T01:30:00.000Z',
+    );
+    const first = nextScheduledRun('02:30', Date.UTC(2026, 9, 24, 12), tz);
+    expect(iso(first)).toBe('2026-10-25T00:30:00.000Z');
+    expect(iso(nextScheduledRun('02:30', first as number, tz))).toBe(
+      '2026-10-26T01:30:00.000Z',
+    );
+  });
+
+  test('should reject invalid schedules', () => {
+    for (const when of ['25:00', 'someday 07:00', '* * *', '61 * * * *']) {
+      expect(() => nextScheduledRun(when, after, tz)).toThrow(
+        BlueAirValidationError,
+      );
+    }
+  });
+});
+
+describe('Scheduler', () => {
+  let cloud: MockBlueAirCloud;
+  let client: BlueAirAwsClient;
+  let uuid: string;
+  let dir: string;
+  let clock: FakeClock;
+
+  const nightRoutine = () => ({
+    id: 'night',
+    uuids: [uuid],
+    when: '22:30',
+    timezone: tz,
+    state: { nightmode: true, brightness: 0 },
+  });
+
+  const nextEvent = <K extends keyof SchedulerEvents>(
+    scheduler: Scheduler,
+    event: K,
+  ) =>
+    new Promise<SchedulerEvents[K]>((resolve) =>
+      scheduler.once(event, resolve),
+    );
+
+  beforeEach(async () => {
+    ({
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud(
+      {
+        devices: [
+          { name: 'Bedroom', states: { nightmode: false, brightness: 80 } },
+        ],
+      },
+      { retryPolicy: { maxAttempts: 1 } },
+    ));
+    dir = mkdtempSync(join(tmpdir(), 'blueair-scheduler-'));
+    clock = new FakeClock(Date.UTC(2026, 9, 23, 12));
+  });
+
+  afterEach(async () => {
+    await cloud.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should apply a routine at its time', async () => {
+    const scheduler = new Scheduler(client, { clock, timezone: tz });
+    await scheduler.start();
+    await scheduler.addRoutine(nightRoutine());
+    expect(iso(scheduler.nextRun('night'))).toBe('2026-10-23T20:30:00.000Z');
+
+    const run = nextEvent(scheduler, 'run');
+    clock.advance(8.5 * 3600 * 1000);
+    await expect(run).resolves.toMatchObject({
+      id: 'night',
+      scheduledAt: Date.UTC(2026, 9, 23, 20, 30),
+      success: true,
+    });
+    expect(cloud.devices.get(uuid)?.states).toMatchObject({
+      nightmode: true,
+      brightness: 0,
+    });
+    expect(iso(scheduler.nextRun('night'))).toBe('2026-10-24T20:30:00.000Z');
+    scheduler.stop();
+  });
+
+  test('should shift a time skipped by the spring forward change', async () => {
+    // Clocks skip from 02:00 to 03:00 on 29 March, so 02:30 runs at 03:30
+    clock.time = Date.UTC(2026, 2, 28, 23);
+    const scheduler = new Scheduler(client, { clock, timezone: tz });
+    await scheduler.start();
+    await scheduler.addRoutine({ ...nightRoutine(), when: '02:30' });
+    expect(iso(scheduler.nextRun('night'))).toBe('2026-03-29T01:30:00.000Z');
+
+    const run = nextEvent(scheduler, 'run');
+    clock.advance(2 * 3600 * 1000);
+    expect(iso(scheduler.nextRun('night'))).toBe('2026-03-29T01:30:00.000Z');
+    clock.advance(0.5 * 3600 * 1000);
+    await expect(run).resolves.toMatchObject({
+      id: 'night',
+      scheduledAt: Date.UTC(2026, 2, 29, 1, 30),
+      success: true,
+    });
+    expect(iso(scheduler.nextRun('night'))).toBe('2026-03-30T00:30:00.000Z');
+    scheduler.stop();
+  });
+
+  test('should report runs missed while stopped', async () => {
+    const store = new FileScheduleStore(join(dir, 'schedules.json'));
+    const first = new Scheduler(client, { clock, store, timezone: tz });
+    await first.start();
+    await first.addRoutine(nightRoutine());
+    first.stop();
+
+    clock.advance(3 * 24 * 3600 * 1000);
+    const second = new Scheduler(client, {
+      clock,
+      store,
+      timezone: tz,
+      catchUp: true,
+    });
+    const missed = nextEvent(second, 'missed');
+    const run = nextEvent(second, 'run');
+    await second.start();
+
+    await expect(missed).resolves.toEqual({
+      id: 'night',
+      missedAt: [
+        Date.UTC(2026, 9, 23, 20, 30),
+        Date.UTC(2026, 9, 24, 20, 30),
+        // The clocks went back on 25 October
+        Date.UTC(2026, 9, 25, 21, 30),
+      ],
+      caughtUp: true,
+    });
+    await expect(run).resolves.toMatchObject({
+      scheduledAt: Date.UTC(2026, 9, 25, 21, 30),
+    });
+    expect(second.getRoutines()[0].checkedAt).toBe(
+      Date.UTC(2026, 9, 25, 21, 30),
+    );
+    second.stop();
+  });
+
+  test('should only report the latest of many missed runs', async () => {
+    const store = new FileScheduleStore(join(dir, 'schedules.json'));
+    const first = new Scheduler(client, { clock, store, timezone: tz });
+    await first.start();
+    await first.addRoutine({
+      ...nightRoutine(),
+      id: 'minutely',
+      when: '* * * * *',
+    });
+    first.stop();
+
+    clock.advance(3 * 24 * 3600 * 1000);
+    const now = Date.UTC(2026, 9, 26, 12);
+    const second = new Scheduler(client, { clock, store, timezone: tz });
+    const missed = nextEvent(second, 'missed');
+    const run = nextEvent(second, 'run');
+    await second.start();
+
+    const { missedAt } = await missed;
+    expect(missedAt).toHaveLength(100);
+    expect(missedAt[0]).toBe(now - 100 * 60 * 1000);
+    expect(missedAt[99]).toBe(now - 60 * 1000);
+    await expect(run).resolves.toMatchObject({ scheduledAt: now });
+    second.stop();
+  });
+
+  test('should validate routines before keeping them', async () => {
+    const scheduler = new Scheduler(client, { clock, timezone: tz });
+    await expect(
+      scheduler.addRoutine({ ...nightRoutine(), when: 'sometimes' }),
+    ).rejects.toThrow(BlueAirValidationError);
+    await expect(
+      scheduler.addRoutine({ ...nightRoutine(), state: { brightness: 200 } }),
+    ).rejects.toThrow(BlueAirValidationError);
+    await expect(
+      scheduler.addRoutine({ ...nightRoutine(), timezone: 'Mars/Olympus' }),
+    ).rejects.toThrow(BlueAirValidationError);
+    expect(scheduler.getRoutines()).toEqual([]);
+
+    await scheduler.addRoutine(nightRoutine());
+    await expect(scheduler.removeRoutine('night')).resolves.toBe(true);
+    await expect(scheduler.removeRoutine('night')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+import { mkdtempSync, rmSync, appendFileSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BlueAirValidationError,
+  JsonlHistoryStore,
+  MemoryHistoryStore,
+  SensorHistory,
+} from '../src/BlueAirAwsClient';
+import { makeStatus, startMockCloud } from './helpers';
+
+describe('SensorHistory', () => {
+  test('should store each reading once, with the device timestamp', async () => {
+    const history = new SensorHistory();
+
+    expect(
+      await history.record([
+        makeStatus({
+          id: 'a',
+          sensorData: { pm2_5: 5 },
+          sensorUpdatedAt: { pm2_5: 1000 },
+        }),
+      ]),
+    ).toBe(1);
+    expect(
+      await history.record([
+        makeStatus({
+          id: 'a',
+          sensorData: { pm2_5: 5 },
+          sensorUpdatedAt: { pm2_5: 1000 },
+        }),
+      ]),
+    ).toBe(0);
+    await history.record(
+      [makeStatus({ id: 'a', sensorData: { pm2_5: 6 } })],
+      2000,
+    );
+
+    expect(await history.query('a', 'pm2_5')).toEqual([
+      { uuid: 'a', sensor: 'pm2_5', timestamp: 1000, value: 5 },
+      { uuid: 'a', sensor: 'pm2_5', timestamp: 2000, value: 6 },
+    ]);
+    expect(await history.query('a', 'pm2_5', { from: 1500 })).toHaveLength(1);
+  });
+
+  test('should record readings again after a failed append', async () => {
+    const store = new MemoryHistoryStore();
+    const append = jest
+      .spyOn(store, 'append')
+      .mockRejectedValueOnce(new Error('disk full'));
+    const history = new SensorHistory(store);
+    const status = makeStatus({
+      id: 'a',
+      sensorData: { pm2_5: 5 },
+      sensorUpdatedAt: { pm2_5: 1000 },
+    });
+
+    await expect(history.record([status])).rejects.toThrow('disk full');
+    expect(await history.record([status])).toBe(1);
+    expect(append).toHaveBeenCalledTimes(2);
+    expect(await history.query('a', 'pm2_5')).toHaveLength(1);
+  });
+
+  test('should drop the oldest readings of a full ring buffer', async () => {
+    const history = new SensorHistory(new MemoryHistoryStore(3));
+    for (let t = 1; t <= 5; t++) {
+      await history.record(
+        [makeStatus({ id: 'a', sensorData: { voc: t } })],
+        t,
+      );
+    }
+
+    const readings = await history.query('a', 'voc');
+    expect(readings.map((reading) => reading.value)).toEqual([3, 4, 5]);
+  });
+
+  test('should downsample into buckets', async () => {
+    const history = new SensorHistory();
+    for (const [t, value] of [
+      [0, 10],
+      [30, 20],
+      [59, 30],
+      [130, 7],
+    ]) {
+      await history.record(
+        [makeStatus({ id: 'a', sensorData: { temperature: value } })],
+        t * 1000,
+      );
+    }
+
+    expect(await history.aggregate('a', 'temperature', 60000)).toEqual([
+      { start: 0, end: 60000, min: 10, max: 30, avg: 20, count: 3 },
+      { start: 120000, end: 180000, min: 7, max: 7, avg: 7, count: 1 },
+    ]);
+    await expect(history.aggregate('a', 'temperature', 0)).rejects.toThrow(
+      BlueAirValidationError,
+    );
+  });
+
+  test('should export CSV and JSON', async () => {
+    const history = new SensorHistory();
+    await history.record(
+      [makeStatus({ id: 'a', sensorData: { pm1: 1, pm10: 9 } })],
+      0,
+    );
+
+    expect(await history.export('a', ['pm1', 'pm10'])).toBe(
+      [
+        'timestamp,uuid,sensor,value',
+        '1970-01-01T00:00:00.000Z,a,pm1,1',
+        '1970-01-01T00:00:00.000Z,a,pm10,9',
+      ].join('\n'),
+    );
+    expect(JSON.parse(await history.export('a', ['pm1'], 'json'))).toEqual([
+      { uuid: 'a', sensor: 'pm1', timestamp: 0, value: 1 },
+    ]);
+  });
+
+  describe('JsonlHistoryStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'blueair-history-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should persist readings across instances', async () => {
+      const file = join(dir, 'nested', 'history.jsonl');
+      const store = new JsonlHistoryStore(file);
+      expect(await store.query({ uuid: 'a', sensor: 'hcho' })).toEqual([]);
+
+      await new SensorHistory(store).record([
+        makeStatus({
+          id: 'a',
+          sensorData: { hcho: 3 },
+          sensorUpdatedAt: { hcho: 1000 },
+        }),
+        makeStatus({
+          id: 'b',
+          sensorData: { hcho: 4 },
+          sensorUpdatedAt: { hcho: 1000 },
+        }),
+      ]);
+      appendFileSync(file, 'not json\n');
+
+      const reopened = new SensorHistory(new JsonlHistoryStore(file));
+      expect(await reopened.query('a', 'hcho')).toEqual([
+        { uuid: 'a', sensor: 'hcho', timestamp: 1000, value: 3 },
+      ]);
+
+      // Readings stored before the restart are not stored again
+      expect(
+        await reopened.record([
+          makeStatus({
+            id: 'a',
+            sensorData: { hcho: 3 },
+            sensorUpdatedAt: { hcho: 1000 },
+          }),
+        ]),
+      ).toBe(0);
+
+      await reopened.store.clear('a');
+      expect(await reopened.query('a', 'hcho')).toEqual([]);
+      expect(await reopened.query('b', 'hcho')).toHaveLength(1);
+    });
+
+    test('should keep a reading appended while a device is cleared', async () => {
+      const store = new JsonlHistoryStore(join(dir, 'history.jsonl'));
+      await store.append([
+        { uuid: 'a', sensor: 'voc', timestamp: 1, value: 1 },
+      ]);
+
+      await Promise.all([
+        store.clear('a'),
+        store.append([{ uuid: 'b', sensor: 'voc', timestamp: 2, value: 2 }]),
+      ]);
+
+      expect(await store.query({ uuid: 'a', sensor: 'voc' })).toEqual([]);
+      expect(await store.query({ uuid: 'b', sensor: 'voc' })).toHaveLength(1);
+    });
+
+    test('should drop the oldest readings once the file is too large', async () => {
+      const file = join(dir, 'history.jsonl');
+      const store = new JsonlHistoryStore(file, { maxSize: 1000 });
+      for (let t = 1; t <= 30; t++) {
+        await store.append([
+          { uuid: 'a', sensor: 'voc', timestamp: t, value: t },
+        ]);
+      }
+
+      expect(statSync(file).size).toBeLessThanOrEqual(1000);
+      const readings = await store.query({ uuid: 'a', sensor: 'voc' });
+      expect(readings[readings.length - 1].timestamp).toBe(30);
+      expect(readings[0].timestamp).toBeGreaterThan(1);
+    });
+  });
+
+  test('should record the polls of a poller', async () => {
+    const {
+      cloud,
+      client,
+      uuids: [uuid],
+    } = await startMockCloud({
+      devices: [{ name: 'Bedroom', sensors: { pm2_5: 12 } }],
+    });
+    try {
+      const poller = client.createPoller(cloud.accountuuid, [uuid]);
+      const history = new SensorHistory();
+      const stop = history.track(poller);
+
+      await poller.pollNow();
+      stop();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const [reading] = await history.query(uuid, 'pm2_5');
+      expect(reading.value).toBe(12);
+      // The API reports whole seconds
+      expect(reading.timestamp % 1000).toBe(0);
+    } finally {
+      await cloud.stop();
+    }
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  BlueAirAwsClient,
+  BlueAirGigyaError,
+  BlueAirHttpError,
+  BlueAirTimeoutError,
+  MemoryTokenStore,
+  StoredSession,
+} from '../src/BlueAirAwsClient';
+import { Region } from '../src/Consts';
+import GigyaApi from '../src/GigyaApi';
+import { getJwtExpiry } from '../src/Jwt';
+
+const makeJwt = (claims: object): string =>
+  [
+    Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url'),
+    Buffer.from(JSON.stringify(claims)).toString('base64url'),
+    'signature',
+  ].join('.');
+
+const inSeconds = (seconds: number): number =>
+  Math.floor(Date.now() / 1000) + seconds;
+
+const makeSession = (
+  overrides: Partial<StoredSession> = {},
+): StoredSession => ({
+  region: Region.EU,
+  gigyaToken: 'gigya-token',
+  gigyaSecret: 'gigya-secret',
+  gigyaIssuedAt: Date.now(),
+  jwt: makeJwt({ exp: inSeconds(3600) }),
+  jwtIssuedAt: Date.now(),
+  accessToken: makeJwt({ exp: inSeconds(3600) }),
+  accessTokenIssuedAt: Date.now(),
+  ...overrides,
+});
+
+const httpError = (status: number): BlueAirHttpError =>
+  new BlueAirHttpError(`Request failed with status code ${status}`, status);
+
+const createClient = async (
+  session: StoredSession,
+  options = {},
+): Promise<BlueAirAwsClient> => {
+  const tokenStore = new MemoryTokenStore();
+  await tokenStore.save('user@example.com', session);
+  const client = new BlueAirAwsClient('user@example.com', 'password', {
+    tokenStore,
+    ...options,
+  });
+  return client;
+};
+
+describe('getJwtExpiry', () => {
+  test('should read the exp claim in milliseconds', () => {
+    expect(getJwtExpiry(makeJwt({ exp: 1700000000 }))).toBe(1700000000000);
+  });
+
+  test('should return null for tokens without exp or non-JWTs', () => {
+    expect(getJwtExpiry(makeJwt({ sub: 'user' }))).toBeNull();
+    expect(getJwtExpiry('not-a-jwt')).toBeNull();
+    expect(getJwtExpiry('a.!!!.c')).toBeNull();
+  });
+});
+
+describe('BlueAirAwsClient token refresh', () => {
+  let loginSpy: jest.SpyInstance;
+  let jwtSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    loginSpy = jest
+      .spyOn(GigyaApi.prototype, 'getGigyaSession')
+      .mockResolvedValue({ token: 'new-token', secret: 'new-secret' });
+    jwtSpy = jest
+      .spyOn(GigyaApi.prototype, 'getGigyaJWT')
+      .mockResolvedValue({ jwt: makeJwt({ exp: inSeconds(300) }) });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep an access token that is valid beyond the skew', async () => {
+    const client = await createClient(makeSession());
+    const awsSpy = jest.spyOn(client as any, 'getAwsAccessToken');
+
+    expect(await client.initialize()).toBe(true);
+    expect(awsSpy).not.toHaveBeenCalled();
+  });
+
+  test('should refresh the access token with the current JWT when it is about to expire', async () => {
+    const client = await createClient(
+      makeSession({ accessToken: makeJwt({ exp: inSeconds(60) }) }),
+      { tokenRefreshSkew: 120 * 1000 },
+    );
+    const awsSpy = jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockResolvedValue({ accessToken: 'refreshed' });
+
+    expect(await client.initialize()).toBe(true);
+    expect(awsSpy).toHaveBeenCalledTimes(1);
+    expect(jwtSpy).not.toHaveBeenCalled();
+    expect(loginSpy).not.toHaveBeenCalled();
+    expect(client.authToken).toBe('refreshed');
+  });
+
+  test('should fetch a new JWT from the Gigya session when the JWT has expired', async () => {
+    const client = await createClient(
+      makeSession({
+        jwt: makeJwt({ exp: inSeconds(-60) }),
+        accessToken: makeJwt({ exp: inSeconds(-60) }),
+      }),
+    );
+    jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockResolvedValue({ accessToken: 'refreshed' });
+
+    expect(await client.initialize()).toBe(true);
+    expect(jwtSpy).toHaveBeenCalledWith('gigya-token', 'gigya-secret');
+    expect(loginSpy).not.toHaveBeenCalled();
+  });
+
+  test('should keep the stored session when a refresh times out', async () => {
+    const tokenStore = new MemoryTokenStore();
+    const session = makeSession({
+      jwt: makeJwt({ exp: inSeconds(-60) }),
+      accessToken: makeJwt({ exp: inSeconds(-60) }),
+    });
+    await tokenStore.save('user@example.com', session);
+    const client = new BlueAirAwsClient('user@example.com', 'password', {
+      tokenStore,
+    });
+    jwtSpy.mockRejectedValue(new BlueAirTimeoutError('Request timed out'));
+
+    await expect(
+      client.initialize(undefined, { throwOnError: true }),
+    ).rejects.toThrow(BlueAirTimeoutError);
+    expect(loginSpy).not.toHaveBeenCalled();
+    await expect(tokenStore.load('user@example.com')).resolves.toEqual(session);
+  });
+
+  test('should keep the stored session when Gigya rate limits the refresh', async () => {
+    const tokenStore = new MemoryTokenStore();
+    const session = makeSession({
+      jwt: makeJwt({ exp: inSeconds(-60) }),
+      accessToken: makeJwt({ exp: inSeconds(-60) }),
+    });
+    await tokenStore.save('user@example.com', session);
+    const client = new BlueAirAwsClient('user@example.com', 'password', {
+      tokenStore,
+    });
+    jwtSpy.mockRejectedValue(
+      new BlueAirGigyaError('Rate limit exceeded', 403048),
+    );
+
+    await expect(
+      client.initialize(undefined, { throwOnError: true }),
+    ).rejects.toThrow(BlueAirGigyaError);
+    expect(loginSpy).not.toHaveBeenCalled();
+    await expect(tokenStore.load('user@example.com')).resolves.toEqual(session);
+  });
+
+  test('should not fall back from the JWT on a server error', async () => {
+    const client = await createClient(
+      makeSession({ accessToken: makeJwt({ exp: inSeconds(-60) }) }),
+    );
+    jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockRejectedValue(httpError(503));
+
+    expect(await client.initialize()).toBe(false);
+    expect(jwtSpy).not.toHaveBeenCalled();
+    expect(loginSpy).not.toHaveBeenCalled();
+  });
+
+  test('should share one refresh between concurrent callers', async () => {
+    const client = await createClient(makeSession());
+    await client.initialize();
+
+    client['session'] = makeSession({
+      accessToken: makeJwt({ exp: inSeconds(-60) }),
+    });
+    const awsSpy = jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockResolvedValue({ accessToken: 'refreshed' });
+
+    await Promise.all([
+      client['checkTokenExpiration'](),
+      client['checkTokenExpiration'](),
+    ]);
+    expect(awsSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should re-authenticate and replay a rejected request exactly once', async () => {
+    const client = await createClient(makeSession());
+    await client.initialize();
+    jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockResolvedValue({ accessToken: 'refreshed' });
+    const requestSpy = jest
+      .spyOn(client as any, 'request')
+      .mockRejectedValueOnce(httpError(401))
+      .mockResolvedValueOnce({ devices: [] });
+
+    await expect(client.getDevices()).resolves.toEqual([]);
+    expect(requestSpy).toHaveBeenCalledTimes(2);
+    expect(client.authToken).toBe('refreshed');
+  });
+
+  test('should not replay more than once', async () => {
+    const client = await createClient(makeSession());
+    await client.initialize();
+    jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockResolvedValue({ accessToken: 'refreshed' });
+    const requestSpy = jest
+      .spyOn(client as any, 'request')
+      .mockRejectedValue(httpError(403));
+
+    await expect(client.getDevices()).rejects.toBeDefined();
+    expect(requestSpy).toHaveBeenCalledTimes(2);
+  });
+});
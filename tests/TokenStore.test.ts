@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  BlueAirAwsClient,
+  BlueAirGigyaError,
+  FileTokenStore,
+  MemoryTokenStore,
+  StoredSession,
+} from '../src/BlueAirAwsClient';
+import { Region } from '../src/Consts';
+import GigyaApi from '../src/GigyaApi';
+
+const session: StoredSession = {
+  region: Region.EU,
+  gigyaToken: 'gigya-token',
+  gigyaSecret: 'gigya-secret',
+  gigyaIssuedAt: Date.now(),
+  jwt: 'jwt',
+  jwtIssuedAt: Date.now(),
+  accessToken: 'access-token',
+  accessTokenIssuedAt: Date.now(),
+};
+
+describe('MemoryTokenStore', () => {
+  test('should save, load and clear sessions per username', async () => {
+    const store = new MemoryTokenStore();
+    await store.save('user@example.com', session);
+
+    expect(await store.load('user@example.com')).toEqual(session);
+    expect(await store.load('other@example.com')).toBeNull();
+
+    await store.clear('user@example.com');
+    expect(await store.load('user@example.com')).toBeNull();
+  });
+});
+
+describe('FileTokenStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blueair-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should persist sessions to disk', async () => {
+    const filePath = path.join(dir, 'nested', 'session.json');
+    await new FileTokenStore(filePath).save('user@example.com', session);
+
+    // A fresh instance reads what the first one wrote
+    const store = new FileTokenStore(filePath);
+    expect(await store.load('user@example.com')).toEqual(session);
+
+    await store.clear('user@example.com');
+    expect(await store.load('user@example.com')).toBeNull();
+  });
+
+  test('should keep every session saved at the same time', async () => {
+    const filePath = path.join(dir, 'session.json');
+    const store = new FileTokenStore(filePath);
+    const usernames = ['a@example.com', 'b@example.com', 'c@example.com'];
+
+    await Promise.all(
+      usernames.map((username) => store.save(username, session)),
+    );
+
+    const fresh = new FileTokenStore(filePath);
+    for (const username of usernames) {
+      expect(await fresh.load(username)).toEqual(session);
+    }
+    expect(await fs.readdir(dir)).toEqual(['session.json']);
+  });
+
+  test('should treat a missing or corrupt file as empty', async () => {
+    const filePath = path.join(dir, 'session.json');
+    expect(await new FileTokenStore(filePath).load('user')).toBeNull();
+
+    await fs.writeFile(filePath, '{not json');
+    expect(await new FileTokenStore(filePath).load('user')).toBeNull();
+  });
+});
+
+describe('BlueAirAwsClient session resume', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should reuse a fresh stored access token without logging in', async () => {
+    const store = new MemoryTokenStore();
+    await store.save('user@example.com', session);
+    const loginSpy = jest.spyOn(GigyaApi.prototype, 'getGigyaSession');
+
+    const client = new BlueAirAwsClient('user@example.com', 'password', {
+      tokenStore: store,
+    });
+
+    expect(await client.initialize()).toBe(true);
+    expect(client.authToken).toBe('access-token');
+    expect(loginSpy).not.toHaveBeenCalled();
+  });
+
+  test('should refresh an expired access token from the stored Gigya session', async () => {
+    const store = new MemoryTokenStore();
+    await store.save('user@example.com', {
+      ...session,
+      accessTokenIssuedAt: 0,
+    });
+    const loginSpy = jest.spyOn(GigyaApi.prototype, 'getGigyaSession');
+    jest
+      .spyOn(GigyaApi.prototype, 'getGigyaJWT')
+      .mockResolvedValue({ jwt: 'new-jwt' });
+
+    const client = new BlueAirAwsClient('user@example.com', 'password', {
+      tokenStore: store,
+    });
+    jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockResolvedValue({ accessToken: 'new-access-token' });
+
+    expect(await client.initialize()).toBe(true);
+    expect(client.authToken).toBe('new-access-token');
+    expect(loginSpy).not.toHaveBeenCalled();
+
+    const stored = await store.load('user@example.com');
+    expect(stored?.jwt).toBe('new-jwt');
+    expect(stored?.accessToken).toBe('new-access-token');
+  });
+
+  test('should fall back to a full login when the stored session is rejected', async () => {
+    const store = new MemoryTokenStore();
+    await store.save('user@example.com', {
+      ...session,
+      accessTokenIssuedAt: 0,
+    });
+    jest
+      .spyOn(GigyaApi.prototype, 'getGigyaJWT')
+      .mockRejectedValueOnce(new BlueAirGigyaError('Invalid session', 403005))
+      .mockResolvedValueOnce({ jwt: 'fresh-jwt' });
+    const loginSpy = jest
+      .spyOn(GigyaApi.prototype, 'getGigyaSession')
+      .mockResolvedValue({ token: 'fresh-token', secret: 'fresh-secret' });
+
+    const client = new BlueAirAwsClient('user@example.com', 'password', {
+      tokenStore: store,
+    });
+    jest
+      .spyOn(client as any, 'getAwsAccessToken')
+      .mockResolvedValue({ accessToken: 'fresh-access-token' });
+
+    expect(await client.initialize()).toBe(true);
+    expect(loginSpy).toHaveBeenCalledTimes(1);
+
+    const stored = await store.load('user@example.com');
+    expect(stored?.gigyaToken).toBe('fresh-token');
+    expect(stored?.accessToken).toBe('fresh-access-token');
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  BlueAirAwsClient,
+  BlueAirClientOptions,
+  MockBlueAirCloud,
+  MockBlueAirCloudOptions,
+} from '../src/BlueAirAwsClient';
+import { BlueAirDeviceStatus } from '../src/Consts';
+import { getCapabilities } from '../src/DeviceCapabilities';
+
+export const username = 'user@example.com';
+export const password = 'correct horse';
+
+/**
+ * Builds a device status with nothing reported, named after its id.
+ * @param overrides - The fields to set.
+ * @returns {BlueAirDeviceStatus} - The status.
+ */
+export const makeStatus = (
+  overrides: Partial<BlueAirDeviceStatus> = {},
+): BlueAirDeviceStatus => {
+  const id = overrides.id ?? 'device-1';
+  return {
+    id,
+    name: id,
+    model: '',
+    mac: '',
+    wifi: '',
+    mcu: '',
+    serial: '',
+    capabilities: getCapabilities(''),
+    state: {},
+    sensorData: {},
+    sensorUpdatedAt: {},
+    stateUpdatedAt: {},
+    extras: { sensors: {}, states: {} },
+    ...overrides,
+  };
+};
+
+/**
+ * Starts a mock cloud for the test account and a client logged in to it. Stop the
+ * cloud when done.
+ * @param options - The mock cloud settings, e.g. its devices.
+ * @param clientOptions - The client settings; the endpoints point at the mock cloud.
+ * @returns {Promise<object>} - The cloud, the client and the uuids of the devices.
+ */
+export const startMockCloud = async (
+  options: Partial<MockBlueAirCloudOptions> = {},
+  clientOptions: BlueAirClientOptions = {},
+): Promise<{
+  cloud: MockBlueAirCloud;
+  client: BlueAirAwsClient;
+  uuids: string[];
+}> => {
+  const cloud = new MockBlueAirCloud({ username, password, ...options });
+  await cloud.start();
+  const client = new BlueAirAwsClient(username, password, {
+    endpoints: cloud.endpoints,
+    ...clientOptions,
+  });
+  await client.initialize();
+  return { cloud, client, uuids: Array.from(cloud.devices.keys()) };
+};